@@ -0,0 +1,132 @@
+import { type ConsoleEntry, toJsonValue } from "./console";
+
+/** How a call that was started ended: with a value, or by throwing. */
+type Outcome = { ok: true; value: unknown } | { ok: false; error: unknown };
+
+/**
+ * Something a sandbox did, emitted to {@link CreateSandboxOptions.audit}.
+ * Every event has a `timestamp` in milliseconds since the epoch, and events
+ * belonging to the same run, host call or request share its `runId`, `callId`
+ * or `fetchId`.
+ *
+ * The `runId` of `hostCall`, `hostCallEnd` and `console` events is reported by
+ * the sandbox's worker, so sandboxed code can forge it, see
+ * {@link HostCall.runId}.
+ */
+export type AuditEvent =
+  | {
+      /** Code was submitted to {@link Sandbox.run}, {@link Sandbox.exec} or {@link Sandbox.evaluate}. */
+      type: "run";
+      timestamp: number;
+      runId: number;
+      method: "run" | "exec" | "evaluate";
+      /** The code as it was submitted, before any transform. */
+      code: string;
+    }
+  | ({
+      /** A run finished, with the value it returned or the error it rejected with. */
+      type: "runEnd";
+      timestamp: number;
+      runId: number;
+      /** Milliseconds since the run started. */
+      duration: number;
+    } & Outcome)
+  | {
+      /**
+       * The sandbox called a host function, including functions that have been
+       * revoked or released, which fail.
+       */
+      type: "hostCall";
+      timestamp: number;
+      callId: number;
+      /** The run in progress when the call was made, as reported by the sandbox, see {@link HostCall.runId}. */
+      runId?: number;
+      /**
+       * The dotted path of the function, see {@link HostCall.path}. Empty if
+       * the function had been released, or never existed.
+       */
+      path: string;
+      /** The arguments, or none if they couldn't be decoded. */
+      args: unknown[];
+    }
+  | ({
+      /**
+       * A host function call finished, including calls denied by
+       * {@link CreateSandboxOptions.onHostCall} and calls to functions that
+       * have been revoked or released.
+       */
+      type: "hostCallEnd";
+      timestamp: number;
+      callId: number;
+      runId?: number;
+      path: string;
+      /** Milliseconds since the call started. */
+      duration: number;
+    } & Outcome)
+  | {
+      /** The sandbox made a request with `fetch()`, see {@link CreateSandboxOptions.fetch}. */
+      type: "fetch";
+      timestamp: number;
+      fetchId: number;
+      method: string;
+      /** The URL requested by the sandbox, before {@link FetchOptions.onRequest} rewrites it. */
+      url: string;
+    }
+  | ({
+      /** A request finished, including requests denied by {@link FetchOptions.onRequest}. */
+      type: "fetchEnd";
+      timestamp: number;
+      fetchId: number;
+      method: string;
+      url: string;
+      /** Milliseconds since the request was made. */
+      duration: number;
+    } & (
+      | {
+          ok: true;
+          status: number;
+          /** The size of the response body in bytes. */
+          size: number;
+        }
+      | { ok: false; error: unknown }
+    ))
+  | {
+      /** Code inside the sandbox logged to the console. */
+      type: "console";
+      timestamp: number;
+      entry: ConsoleEntry;
+    }
+  | {
+      /** A run exceeded its timeout. */
+      type: "timeout";
+      timestamp: number;
+      runId?: number;
+      /** See {@link SandboxTimeoutError.stateLost}. */
+      stateLost: boolean;
+    }
+  | {
+      /** The sandbox was disposed. */
+      type: "dispose";
+      timestamp: number;
+    };
+
+/**
+ * Serializes an audit event as a line of JSON, ending with a newline, so that
+ * a sequence of events can be written to a [JSON Lines](https://jsonlines.org)
+ * file.
+ *
+ * Errors are written as objects with their `name`, `message` and `stack`,
+ * Maps and Sets as arrays, and values JSON can't represent, like functions and
+ * bigints, as strings.
+ *
+ * @example
+ * ```typescript
+ * const lines: string[] = []
+ * const sandbox = await createSandbox({
+ *   audit: (event) => lines.push(toJsonLine(event)),
+ * })
+ * ```
+ */
+export function toJsonLine(event: AuditEvent): string {
+  return `${JSON.stringify(toJsonValue(event))}\n`;
+}
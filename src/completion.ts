@@ -0,0 +1,218 @@
+// Finds the last statement of a program so that, if it's an expression, its
+// value can be exported from the module and returned to the host. Statement
+// boundaries are found with the same rules as automatic semicolon insertion,
+// which works for typical code without needing a full parser.
+
+import { type Token, tokenize } from "./lexer";
+
+// Statements whose body is a block, and which end with its closing brace
+const blockKeywords = new Set([
+  "class",
+  "do",
+  "for",
+  "function",
+  "if",
+  "switch",
+  "try",
+  "while",
+  "with",
+]);
+
+// Statements that aren't expression statements
+const statementKeywords = new Set([
+  ...blockKeywords,
+  "break",
+  "const",
+  "continue",
+  "debugger",
+  "export",
+  "import",
+  "let",
+  "return",
+  "throw",
+  "var",
+]);
+
+// Keywords followed by a parenthesized header and then the statement's body
+const headerKeywords = new Set(["catch", "for", "if", "switch", "while", "with"]);
+
+// Keywords that continue the previous statement, even after a closing brace
+const continuationKeywords = new Set(["catch", "else", "finally"]);
+
+// Keywords that a statement can't end with
+const incompleteKeywords = new Set([
+  "await",
+  "case",
+  "const",
+  "delete",
+  "do",
+  "else",
+  "export",
+  "extends",
+  "finally",
+  "import",
+  "in",
+  "instanceof",
+  "let",
+  "new",
+  "try",
+  "typeof",
+  "var",
+  "void",
+  "yield",
+]);
+
+const openers = new Set(["(", "[", "{"]);
+const closers = new Set([")", "]", "}"]);
+
+function isPunctuator(token: Token | undefined, value: string) {
+  return token?.type === "punctuator" && token.value === value;
+}
+
+/** Whether a statement starting with `first` (followed by `second`) is an expression statement. */
+function isExpressionStatement(first: Token, second: Token | undefined) {
+  switch (first.type) {
+    case "punctuator":
+      return first.value !== "{" && first.value !== ";";
+    case "name":
+      if (isPunctuator(second, ":")) {
+        return false; // A label
+      }
+      if (first.value === "async") {
+        return second?.value !== "function";
+      }
+      if (first.value === "import") {
+        return isPunctuator(second, "(") || isPunctuator(second, ".");
+      }
+      return !statementKeywords.has(first.value);
+    default:
+      return true;
+  }
+}
+
+/** Whether a statement could end with `token`, if followed by a line break. */
+function canEnd(token: Token, headerCloses: Set<Token>) {
+  switch (token.type) {
+    case "punctuator":
+      if (token.value === ")") {
+        return !headerCloses.has(token);
+      }
+      return (
+        token.value === "]" || token.value === "}" || token.value === "++" || token.value === "--"
+      );
+    case "name":
+      return !incompleteKeywords.has(token.value);
+    case "template":
+      return token.value.endsWith("`");
+    default:
+      return true;
+  }
+}
+
+/** Whether `token` starts a new statement after a line break, rather than continuing the previous one. */
+function canStart(token: Token) {
+  switch (token.type) {
+    case "punctuator":
+      return ["{", "++", "--", "!", "~"].includes(token.value);
+    case "name":
+      return token.value !== "in" && token.value !== "instanceof";
+    case "template":
+      return false; // A tagged template
+    default:
+      return true;
+  }
+}
+
+/** Returns the index of the first token of the last top-level statement. */
+function findLastStatement(tokens: Token[]): number {
+  let start = 0;
+  let depth = 0;
+  const openIndices: number[] = [];
+
+  // Closing parentheses of headers like `if (...)`, after which the statement
+  // continues on the next line
+  const headerCloses = new Set<Token>();
+
+  for (let i = 0; i < tokens.length; ++i) {
+    const token = tokens[i];
+    const prev = tokens[i - 1];
+
+    if (depth === 0 && prev && i > start) {
+      const first = tokens[start];
+      let boundary: boolean;
+      if (isPunctuator(prev, ";")) {
+        boundary = true;
+      } else if (token.type === "name" && continuationKeywords.has(token.value)) {
+        boundary = false;
+      } else if (
+        isPunctuator(prev, "}") &&
+        (isPunctuator(first, "{") || (first.type === "name" && blockKeywords.has(first.value)))
+      ) {
+        // The end of a block statement, unless it's the `while` of `do {} while (...)`
+        boundary = !(first.value === "do" && token.value === "while");
+      } else {
+        boundary = token.newlineBefore && canEnd(prev, headerCloses) && canStart(token);
+      }
+      if (boundary) {
+        start = i;
+      }
+    }
+
+    const opens =
+      (token.type === "punctuator" && openers.has(token.value)) ||
+      (token.type === "template" && token.value.startsWith("`") && token.value.endsWith("${"));
+    const closes =
+      (token.type === "punctuator" && closers.has(token.value)) ||
+      (token.type === "template" && token.value.startsWith("}") && token.value.endsWith("`"));
+    if (opens) {
+      openIndices.push(i);
+      ++depth;
+    } else if (closes) {
+      const open = openIndices.pop();
+      depth = Math.max(0, depth - 1);
+      const keyword = open !== undefined ? tokens[open - 1] : undefined;
+      // The `while (...)` of a top-level `do` loop ends it instead
+      const endsLoop = depth === 0 && tokens[start].value === "do";
+      if (
+        token.value === ")" &&
+        keyword?.type === "name" &&
+        headerKeywords.has(keyword.value) &&
+        !endsLoop
+      ) {
+        headerCloses.add(token);
+      }
+    }
+  }
+  return start;
+}
+
+/**
+ * Rewrites a module so that, if its last statement is an expression, the
+ * expression's value is exported as `name`. Returns the code unchanged if it
+ * doesn't end with an expression statement.
+ */
+export function exportLastExpression(code: string, name: string): string {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(code);
+  } catch {
+    // Leave it to the worker to report the syntax error
+    return code;
+  }
+  if (tokens.length === 0) {
+    return code;
+  }
+
+  const start = findLastStatement(tokens);
+  if (!isExpressionStatement(tokens[start], tokens[start + 1])) {
+    return code;
+  }
+
+  let end = tokens.length - 1;
+  if (isPunctuator(tokens[end], ";") && end > start) {
+    --end;
+  }
+  const from = tokens[start].start;
+  const to = tokens[end].end;
+  return `${code.slice(0, from)}export const ${name} = (${code.slice(from, to)}\n);${code.slice(to)}`;
+}
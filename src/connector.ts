@@ -0,0 +1,178 @@
+// Lets code without a DOM, like a Web Worker or an extension's service worker,
+// create sandboxes. A page with a DOM calls serveSandboxes() to create the
+// iframes on its behalf, and the worker reaches it through a connector.
+
+import { createIframeBackend } from "./frame";
+import type { CreateBackend, CreateSandboxOptions, SandboxBackend } from "./host";
+
+/**
+ * A channel to a page that called {@link serveSandboxes}, for
+ * {@link CreateSandboxOptions.connector}. Usually a `MessagePort`, or the
+ * worker's own global scope if the page serves its `Worker`.
+ */
+export type SandboxConnector = {
+  postMessage(message: unknown, transfer: Transferable[]): void;
+};
+
+/**
+ * Where {@link serveSandboxes} listens for requests to create sandboxes: a
+ * dedicated `Worker` or a `MessagePort`.
+ */
+export type SandboxConnectorTarget = {
+  addEventListener(type: "message", listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: "message", listener: (event: MessageEvent) => void): void;
+};
+
+/**
+ * Creates the iframes of sandboxes for code that can't, like a Web Worker or an
+ * extension's service worker, which passes the other end of `target` to
+ * {@link createSandbox} as the `connector` option.
+ *
+ * Sandboxed code still runs in a worker inside an iframe on this page, with the
+ * same Content-Security-Policy. Host functions run in the worker that created
+ * the sandbox, which talks to the sandbox's worker directly.
+ *
+ * Messages aren't checked for their origin, so `target` must be a dedicated
+ * `Worker` or a `MessagePort` that only trusted code holds, never a `window`,
+ * which any other page could post requests to.
+ *
+ * @param target - Where requests arrive, like the `Worker` that creates
+ *   sandboxes, or a `MessagePort` sent to it.
+ * @returns A function that stops serving and disposes every sandbox created
+ *   through `target`.
+ *
+ * @example
+ * ```typescript
+ * // In the page
+ * const worker = new Worker("agent.js", { type: "module" })
+ * serveSandboxes(worker)
+ *
+ * // In agent.js
+ * const sandbox = await createSandbox({ connector: self })
+ * ```
+ */
+export function serveSandboxes(target: SandboxConnectorTarget): () => void {
+  const connections = new Set<() => void>();
+
+  function onMessage(event: MessageEvent) {
+    if (event.data?.type !== "slopjail:connect") {
+      return;
+    }
+    const { name, contentSecurityPolicy } = event.data;
+    const port: MessagePort = event.ports[0];
+    let backend: SandboxBackend | undefined;
+    let closed = false;
+
+    function close() {
+      closed = true;
+      connections.delete(close);
+      backend?.dispose();
+      port.close();
+    }
+    connections.add(close);
+
+    port.onmessage = (event) => {
+      switch (event.data?.type) {
+        case "slopjail:spawn":
+          backend?.spawn(event.ports[0]);
+          break;
+        case "slopjail:dispose":
+          close();
+          break;
+      }
+    };
+
+    createIframeBackend(contentSecurityPolicy)(name, (err) => {
+      port.postMessage({ type: "slopjail:crash", message: err.message });
+    }).then(
+      (created) => {
+        if (closed) {
+          created.dispose();
+          return;
+        }
+        backend = created;
+        port.postMessage({ type: "slopjail:ready" });
+      },
+      (err) => {
+        port.postMessage({
+          type: "slopjail:error",
+          message: err instanceof Error ? err.message : String(err),
+        });
+        close();
+      },
+    );
+  }
+
+  target.addEventListener("message", onMessage);
+  if (target instanceof MessagePort) {
+    // Ports only deliver messages to listeners once started
+    target.start();
+  }
+
+  return () => {
+    target.removeEventListener("message", onMessage);
+    for (const close of connections) {
+      close();
+    }
+  };
+}
+
+// How long to wait for the page to create the iframe, so that a connector
+// nobody serves fails instead of hanging
+const connectTimeout = 10_000;
+
+/**
+ * Runs workers in an iframe created by a page that called
+ * {@link serveSandboxes}, reached through `connector`.
+ */
+export function createConnectorBackend(
+  connector: SandboxConnector,
+  cspOpts: CreateSandboxOptions["contentSecurityPolicy"],
+): CreateBackend {
+  return async (name, onCrash) => {
+    const controlChannel = new MessageChannel();
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(
+          new Error(
+            `No response from the connector after ${connectTimeout / 1000} seconds. Make sure ` +
+              "the page on the other end called serveSandboxes().",
+          ),
+        );
+        // In case the page answers after all
+        controlChannel.port1.postMessage({ type: "slopjail:dispose" });
+      }, connectTimeout);
+
+      controlChannel.port1.onmessage = (event) => {
+        switch (event.data?.type) {
+          case "slopjail:ready":
+            clearTimeout(timer);
+            resolve();
+            break;
+          case "slopjail:error":
+            clearTimeout(timer);
+            reject(new Error(event.data.message));
+            break;
+          case "slopjail:crash":
+            onCrash(new Error(event.data.message));
+            break;
+        }
+      };
+      connector.postMessage({ type: "slopjail:connect", name, contentSecurityPolicy: cspOpts }, [
+        controlChannel.port2,
+      ]);
+    });
+
+    return {
+      spawn(port) {
+        controlChannel.port1.postMessage({ type: "slopjail:spawn" }, [port]);
+      },
+
+      dispose() {
+        // The page closes the channel once it has removed the iframe
+        controlChannel.port1.postMessage({ type: "slopjail:dispose" });
+      },
+    };
+  };
+}
@@ -0,0 +1,211 @@
+/** Severity of a {@link ConsoleEntry}. */
+export type ConsoleLevel = "debug" | "log" | "info" | "warn" | "error";
+
+/** A single call to a console method made by code inside the sandbox. */
+export type ConsoleEntry = {
+  /** Severity of the entry, derived from the console method that was called. */
+  level: ConsoleLevel;
+
+  /** Name of the console method that was called, such as `"table"` or `"timeEnd"`. */
+  method: string;
+
+  /**
+   * Arguments passed to the console method. Values that can't be structured
+   * cloned (functions, symbols, objects containing them, etc.) are formatted as
+   * strings instead.
+   */
+  args: unknown[];
+
+  /** Milliseconds since the epoch when the method was called. */
+  timestamp: number;
+
+  /** Nesting level from `console.group()`, starting at `0`. */
+  depth: number;
+
+  /**
+   * The call to {@link Sandbox.run} or {@link Sandbox.evaluate} that was in
+   * progress, if any. When calls overlap, entries are attributed to the most
+   * recently started one.
+   *
+   * Reported by the sandbox's worker, so sandboxed code can forge it, like the
+   * rest of the entry.
+   */
+  runId?: number;
+};
+
+// Taken when the worker loads, since the globals policy may remove them from
+// the global scope before sandboxed code calls the console
+const { performance, structuredClone } = globalThis;
+
+/** Formats a value for display, similar to how browser devtools would. */
+export function formatValue(value: unknown, depth = 0): string {
+  switch (typeof value) {
+    case "string":
+      return depth > 0 ? JSON.stringify(value) : value;
+    case "bigint":
+      return `${value}n`;
+    case "symbol":
+      return value.toString();
+    case "function":
+      return `[Function: ${value.name || "(anonymous)"}]`;
+    case "object": {
+      if (value === null) {
+        return "null";
+      }
+      if (value instanceof Error) {
+        return value.stack ?? `${value.name}: ${value.message}`;
+      }
+      if (depth > 2) {
+        return Array.isArray(value) ? "[Array]" : "[Object]";
+      }
+      if (Array.isArray(value)) {
+        return `[${value.map((item) => formatValue(item, depth + 1)).join(", ")}]`;
+      }
+      if (value instanceof Map) {
+        const entries = [...value].map(
+          ([k, v]) => `${formatValue(k, depth + 1)} => ${formatValue(v, depth + 1)}`,
+        );
+        return `Map(${value.size}) {${entries.join(", ")}}`;
+      }
+      if (value instanceof Set) {
+        const items = [...value].map((item) => formatValue(item, depth + 1));
+        return `Set(${value.size}) {${items.join(", ")}}`;
+      }
+      const ctorName = Object.getPrototypeOf(value)?.constructor?.name;
+      const prefix = ctorName && ctorName !== "Object" ? `${ctorName} ` : "";
+      const props = Object.entries(value).map(([k, v]) => `${k}: ${formatValue(v, depth + 1)}`);
+      return `${prefix}{${props.join(", ")}}`;
+    }
+    default:
+      return String(value);
+  }
+}
+
+/** Returns `value` if it can be structured cloned, or a formatted string of it otherwise. */
+export function toCloneable(value: unknown): unknown {
+  try {
+    structuredClone(value);
+    return value;
+  } catch {
+    return formatValue(value);
+  }
+}
+
+/** Converts a value to one that `JSON.stringify()` represents faithfully. */
+export function toJsonValue(value: unknown, ancestors: object[] = []): unknown {
+  switch (typeof value) {
+    case "bigint":
+    case "symbol":
+    case "function":
+      return formatValue(value);
+    case "object": {
+      if (value === null || value instanceof Date) {
+        return value;
+      }
+      if (ancestors.includes(value)) {
+        return "[Circular]";
+      }
+      const nested = [...ancestors, value];
+      if (value instanceof Error) {
+        return {
+          name: value.name,
+          message: value.message,
+          stack: value.stack,
+          ...("cause" in value && { cause: toJsonValue(value.cause, nested) }),
+        };
+      }
+      if (Array.isArray(value) || value instanceof Set) {
+        return [...value].map((item) => toJsonValue(item, nested));
+      }
+      if (value instanceof Map) {
+        return [...value].map((entry) => toJsonValue(entry, nested));
+      }
+      if (value instanceof RegExp) {
+        return String(value);
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, toJsonValue(item, nested)]),
+      );
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Creates a replacement for the global `console` that forwards every call as a
+ * structured {@link ConsoleEntry}.
+ */
+export function createConsole(
+  emit: (entry: Omit<ConsoleEntry, "runId">) => void,
+): Partial<Console> {
+  let depth = 0;
+  const counts = new Map<string, number>();
+  const timers = new Map<string, number>();
+
+  function write(level: ConsoleLevel, method: string, args: unknown[]) {
+    emit({ level, method, args: args.map(toCloneable), timestamp: Date.now(), depth });
+  }
+
+  function elapsed(method: string, label: string, data: unknown[]) {
+    const start = timers.get(label);
+    if (start === undefined) {
+      write("warn", method, [`Timer '${label}' does not exist`]);
+      return false;
+    }
+    write("log", method, [`${label}: ${performance.now() - start}ms`, ...data]);
+    return true;
+  }
+
+  return {
+    debug: (...args) => write("debug", "debug", args),
+    log: (...args) => write("log", "log", args),
+    info: (...args) => write("info", "info", args),
+    warn: (...args) => write("warn", "warn", args),
+    error: (...args) => write("error", "error", args),
+    trace: (...args) => write("debug", "trace", [...args, new Error().stack]),
+    dir: (item) => write("log", "dir", [item]),
+    dirxml: (...args) => write("log", "dirxml", args),
+    table: (data) => write("log", "table", [data]),
+    clear: () => write("log", "clear", []),
+
+    assert(condition, ...args) {
+      if (!condition) {
+        write("error", "assert", ["Assertion failed", ...args]);
+      }
+    },
+
+    group(...args) {
+      write("log", "group", args);
+      ++depth;
+    },
+    groupCollapsed(...args) {
+      write("log", "groupCollapsed", args);
+      ++depth;
+    },
+    groupEnd() {
+      depth = Math.max(0, depth - 1);
+    },
+
+    count(label = "default") {
+      const count = (counts.get(label) ?? 0) + 1;
+      counts.set(label, count);
+      write("log", "count", [`${label}: ${count}`]);
+    },
+    countReset(label = "default") {
+      counts.delete(label);
+    },
+
+    time(label = "default") {
+      timers.set(label, performance.now());
+    },
+    timeLog(label = "default", ...data) {
+      elapsed("timeLog", label, data);
+    },
+    timeEnd(label = "default") {
+      if (elapsed("timeEnd", label, [])) {
+        timers.delete(label);
+      }
+    },
+  };
+}
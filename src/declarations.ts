@@ -0,0 +1,230 @@
+// Generates TypeScript declarations for the globals of a sandbox, so that the
+// prompt given to a model always matches what the sandbox actually exposes.
+// Values are walked the same way extractMethods() in host.ts walks them.
+
+import { getExposeOptions, getInstanceMembers } from "./expose";
+import { isPlainObject } from "./marshal";
+import { type FunctionSchema, getFunctionSchema, type Schema } from "./schema";
+
+// Words that can't name a declaration in a module, where the sandbox's code runs
+const reservedWords = new Set(
+  [
+    "arguments await break case catch class const continue debugger default delete do else enum",
+    "eval export extends false finally for function if implements import in instanceof interface",
+    "let new null package private protected public return static super switch this throw true",
+    "try typeof var void while with yield",
+  ]
+    .join(" ")
+    .split(" "),
+);
+
+function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(name);
+}
+
+function formatKey(key: string): string {
+  return isIdentifier(key) ? key : JSON.stringify(key);
+}
+
+function indent(text: string): string {
+  return text.replace(/\n/g, "\n  ");
+}
+
+/** Returns the type of an array whose items have any of the given types. */
+function formatArrayOf(types: string[]): string {
+  const unique = [...new Set(types)];
+  if (unique.length === 0) {
+    return "unknown[]";
+  }
+  return unique.length === 1 && /^[\w.<>, ]+$/.test(unique[0])
+    ? `${unique[0]}[]`
+    : `(${unique.join(" | ")})[]`;
+}
+
+/** Returns the TypeScript type described by a schema. */
+function schemaToType(schema: Schema): string {
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value) ?? "undefined").join(" | ");
+  }
+  if (schema.anyOf) {
+    return schema.anyOf.map(schemaToType).join(" | ");
+  }
+  if (schema.type === undefined) {
+    return "unknown";
+  }
+  const types = [schema.type].flat().map((type) => {
+    switch (type) {
+      case "integer":
+        return "number";
+      case "function":
+        return "(...args: any[]) => unknown";
+      case "array":
+        return schema.items ? formatArrayOf([schemaToType(schema.items)]) : "unknown[]";
+      case "object":
+        return objectSchemaToType(schema);
+      default:
+        return type;
+    }
+  });
+  return [...new Set(types)].join(" | ");
+}
+
+function objectSchemaToType(schema: Schema): string {
+  const required = new Set(schema.required);
+  const members = Object.entries(schema.properties ?? {}).map(
+    ([key, property]) =>
+      `${formatKey(key)}${required.has(key) ? "" : "?"}: ${schemaToType(property)}`,
+  );
+  const additional = schema.additionalProperties;
+  if (typeof additional === "object") {
+    members.push(`[key: string]: ${schemaToType(additional)}`);
+  } else if (additional !== false && members.length === 0) {
+    return "Record<string, unknown>";
+  }
+  return members.length > 0 ? `{ ${members.join("; ")} }` : "{}";
+}
+
+/** Returns a JSDoc comment for a function, or an empty string if there's nothing to say. */
+function formatDocComment(schema: FunctionSchema | undefined): string {
+  const lines: string[] = [];
+  if (schema?.description) {
+    lines.push(...schema.description.split("\n"));
+  }
+  for (const param of schema?.params ?? []) {
+    if (param.description) {
+      lines.push(`@param ${param.name} - ${param.description}`);
+    }
+  }
+  if (schema?.returns?.description) {
+    lines.push(`@returns ${schema.returns.description}`);
+  }
+  if (lines.length === 0) {
+    return "";
+  }
+  if (lines.length === 1) {
+    return `/** ${lines[0]} */\n`;
+  }
+  return `/**\n${lines.map((line) => ` * ${line}`).join("\n")}\n */\n`;
+}
+
+/**
+ * Returns the parameter list and return type of a function, like
+ * `(a: number): Promise<number>`, or `(a: number) => Promise<number>` with
+ * `" => "` as the separator.
+ */
+function formatSignature(schema: FunctionSchema | undefined, separator = ": "): string {
+  const params = schema?.params
+    ? schema.params
+        .map((param) => `${param.name}${param.optional ? "?" : ""}: ${schemaToType(param)}`)
+        .join(", ")
+    : "...args: unknown[]";
+  const returns = schema?.returns ? schemaToType(schema.returns) : "unknown";
+  return `(${params})${separator}Promise<${returns}>`;
+}
+
+/** Returns the type of a value passed through to the sandbox as it is. */
+function inferType(value: unknown): string {
+  switch (typeof value) {
+    case "function":
+      return formatSignature(getFunctionSchema(value), " => ");
+    case "object": {
+      if (value === null) {
+        return "null";
+      }
+      if (Array.isArray(value)) {
+        return formatArrayOf(value.map(inferType));
+      }
+      if (isPlainObject(value) || getExposeOptions(value)) {
+        return formatObjectType(value);
+      }
+      if (value instanceof Map) {
+        return "Map<unknown, unknown>";
+      }
+      if (value instanceof Set) {
+        return "Set<unknown>";
+      }
+      return Object.getPrototypeOf(value)?.constructor?.name ?? "object";
+    }
+    case "undefined":
+      return "undefined";
+    default:
+      return typeof value;
+  }
+}
+
+/** Returns an object type for a plain object or exposed instance, with a member per line. */
+function formatObjectType(value: object): string {
+  const exposeOpts = getExposeOptions(value);
+  const members = exposeOpts
+    ? getInstanceMembers(value, exposeOpts)
+    : { values: Object.entries(value), getters: [] };
+
+  const lines: string[] = [];
+  for (const [key, item] of members.values) {
+    if (typeof item === "function") {
+      const schema = getFunctionSchema(item);
+      lines.push(`${formatDocComment(schema)}${formatKey(key)}${formatSignature(schema)};`);
+    } else {
+      lines.push(`${formatKey(key)}: ${inferType(item)};`);
+    }
+  }
+  for (const [key] of members.getters) {
+    lines.push(`readonly ${formatKey(key)}: Promise<unknown>;`);
+  }
+  if (lines.length === 0) {
+    return "{}";
+  }
+  return `{\n  ${indent(lines.join("\n"))}\n}`;
+}
+
+/**
+ * Generates TypeScript declarations describing globals as they appear inside
+ * a sandbox, for example to tell a model which functions it can call.
+ *
+ * Constants are declared with types inferred from their values, and objects
+ * and {@link exposeInstance exposed instances} are walked like
+ * {@link CreateSandboxOptions.globals} is. Every host function returns a
+ * promise inside the sandbox, so functions are declared as async, with
+ * parameters, return types and JSDoc from their {@link withSchema} schema if
+ * they have one, or as `(...args: unknown[]) => Promise<unknown>` otherwise.
+ * Globals whose names aren't identifiers, like `"my-tool"` or `"delete"`, can
+ * only be reached through `globalThis`, and are left out.
+ *
+ * @param globals - The same globals passed to {@link createSandbox}.
+ * @returns The declarations, as the source of a `.d.ts` file.
+ *
+ * @example
+ * ```typescript
+ * const globals = {
+ *   math: {
+ *     pi: Math.PI,
+ *     add: withSchema((a: number, b: number) => a + b, {
+ *       params: [{ name: "a", type: "number" }, { name: "b", type: "number" }],
+ *       returns: { type: "number" },
+ *     }),
+ *   },
+ * }
+ *
+ * generateDeclarations(globals)
+ * // declare const math: {
+ * //   pi: number;
+ * //   add(a: number, b: number): Promise<number>;
+ * // };
+ * ```
+ */
+export function generateDeclarations(globals: Record<string, unknown>): string {
+  const entries = Object.entries(globals).filter(
+    ([name]) => isIdentifier(name) && !reservedWords.has(name),
+  );
+  const declarations = entries.map(([name, value]) => {
+    if (typeof value === "function") {
+      const schema = getFunctionSchema(value);
+      return `${formatDocComment(schema)}declare function ${name}${formatSignature(schema)};`;
+    }
+    return `declare const ${name}: ${inferType(value)};`;
+  });
+  return `${[
+    "// Functions run outside of the sandbox, so they're async and must be awaited.",
+    ...declarations,
+  ].join("\n\n")}\n`;
+}
@@ -0,0 +1,373 @@
+// Makes the sources of nondeterminism inside the worker reproducible: random
+// numbers come from a seeded generator, and the clock only moves when virtual
+// timers advance it. Installed by the worker before any code runs.
+
+/**
+ * Options for {@link CreateSandboxOptions.deterministic}.
+ */
+export type DeterministicOptions = {
+  /** The seed of the random number generator. Defaults to `0`. */
+  seed?: number;
+
+  /**
+   * The time the clock starts at, in milliseconds since the epoch. Defaults to
+   * `0`, the start of 1970.
+   */
+  now?: number;
+
+  /**
+   * Whether `setTimeout()` and `setInterval()` advance the clock instead of
+   * waiting. Timers then fire in order as soon as the sandbox is otherwise
+   * idle, without waiting for host functions.
+   *
+   * Defaults to `false`, where timers wait as usual but the clock stays
+   * frozen.
+   */
+  virtualTimers?: boolean;
+};
+
+/** {@link DeterministicOptions} with defaults applied, as sent to the worker. */
+export type DeterministicConfig = Required<DeterministicOptions>;
+
+type Timer = {
+  time: number;
+  callback: (...args: unknown[]) => void;
+  args: unknown[];
+  /** Only present for intervals. */
+  interval?: number;
+};
+
+/** Returns a generator of 32-bit integers, using the mulberry32 algorithm. */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+}
+
+function installRandom(seed: number) {
+  const next = createRandom(seed);
+  Math.random = () => next() / 2 ** 32;
+
+  if (typeof crypto === "undefined") {
+    return;
+  }
+  // Patch the prototype, so the originals can't be recovered from it
+  const cryptoProto = Object.getPrototypeOf(crypto);
+  Object.defineProperty(cryptoProto, "getRandomValues", {
+    configurable: true,
+    writable: true,
+    value: <T extends ArrayBufferView | null>(array: T): T => {
+      if (
+        !ArrayBuffer.isView(array) ||
+        array instanceof DataView ||
+        array instanceof Float32Array ||
+        array instanceof Float64Array
+      ) {
+        throw new DOMException("The array must be an integer typed array", "TypeMismatchError");
+      }
+      if (array.byteLength > 65536) {
+        throw new DOMException(
+          `The array's byte length (${array.byteLength}) exceeds 65536`,
+          "QuotaExceededError",
+        );
+      }
+      const bytes = new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = next() & 0xff;
+      }
+      return array;
+    },
+  });
+  Object.defineProperty(cryptoProto, "randomUUID", {
+    configurable: true,
+    writable: true,
+    value: () => {
+      const bytes = crypto.getRandomValues(new Uint8Array(16));
+      bytes[6] = (bytes[6] & 0x0f) | 0x40;
+      bytes[8] = (bytes[8] & 0x3f) | 0x80;
+      const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    },
+  });
+}
+
+/**
+ * Replaces `Date` with a constructor that gets the current time from
+ * `getTime()`. Dates are still instances of the original `Date`.
+ */
+function replaceDate(getTime: () => number) {
+  const RealDate = Date;
+
+  function VirtualDate(this: unknown, ...args: unknown[]) {
+    if (!new.target) {
+      // Date() called without new returns the current time as a string
+      return new RealDate(getTime()).toString();
+    }
+    return Reflect.construct(RealDate, args.length > 0 ? args : [getTime()], new.target);
+  }
+  Object.defineProperties(VirtualDate, {
+    prototype: { value: RealDate.prototype },
+    now: { configurable: true, writable: true, value: getTime },
+    parse: { configurable: true, writable: true, value: RealDate.parse },
+    UTC: { configurable: true, writable: true, value: RealDate.UTC },
+  });
+  Object.defineProperty(RealDate.prototype, "constructor", {
+    configurable: true,
+    writable: true,
+    value: VirtualDate,
+  });
+  globalThis.Date = VirtualDate as unknown as DateConstructor;
+}
+
+/**
+ * Makes `Intl.DateTimeFormat` format the time from `getTime()` when it isn't
+ * given a date, instead of reading the real clock.
+ */
+function replaceDateTimeFormat(getTime: () => number) {
+  if (typeof Intl === "undefined") {
+    return;
+  }
+  const proto = Intl.DateTimeFormat.prototype;
+  const withTime = (date: unknown) => (date === undefined ? getTime() : date);
+
+  // format is a getter that returns the same bound function every time
+  // biome-ignore lint/style/noNonNullAssertion: format is a standard getter
+  const formatDescriptor = Object.getOwnPropertyDescriptor(proto, "format")!;
+  const formats = new WeakMap<Intl.DateTimeFormat, (date?: Date | number) => string>();
+  Object.defineProperty(proto, "format", {
+    configurable: true,
+    get(this: Intl.DateTimeFormat) {
+      let format = formats.get(this);
+      if (!format) {
+        const realFormat = formatDescriptor.get?.call(this);
+        format = (date) => realFormat(withTime(date) as Date | number);
+        formats.set(this, format);
+      }
+      return format;
+    },
+  });
+
+  for (const key of ["formatToParts", "formatRange", "formatRangeToParts"] as const) {
+    const method = Object.getOwnPropertyDescriptor(proto, key)?.value as
+      | ((...dates: unknown[]) => unknown)
+      | undefined;
+    if (!method) {
+      continue;
+    }
+    Object.defineProperty(proto, key, {
+      configurable: true,
+      writable: true,
+      value: {
+        [key](this: Intl.DateTimeFormat, ...dates: unknown[]) {
+          return method.apply(this, dates.length > 0 ? dates.map(withTime) : [getTime()]);
+        },
+      }[key],
+    });
+  }
+}
+
+// Only the parts of Temporal that replaceTemporalNow() uses, since TypeScript
+// doesn't declare it yet
+type TemporalNamespace = {
+  Now: { timeZoneId(): string };
+  Instant: {
+    fromEpochMilliseconds(ms: number): {
+      toZonedDateTimeISO(timeZone: unknown): {
+        toPlainDateTime(): unknown;
+        toPlainDate(): unknown;
+        toPlainTime(): unknown;
+      };
+    };
+  };
+};
+
+/** Makes `Temporal.Now` get the current time from `getTime()`, where there is a `Temporal`. */
+function replaceTemporalNow(getTime: () => number) {
+  const Temporal = (globalThis as { Temporal?: TemporalNamespace }).Temporal;
+  if (!Temporal?.Now) {
+    return;
+  }
+  const realNow = Temporal.Now;
+  const timeZoneId = () => realNow.timeZoneId();
+  const instant = () => Temporal.Instant.fromEpochMilliseconds(getTime());
+  const zonedDateTime = (timeZone: unknown = timeZoneId()) =>
+    instant().toZonedDateTimeISO(timeZone);
+  const now = {
+    instant,
+    timeZoneId,
+    zonedDateTimeISO: zonedDateTime,
+    plainDateTimeISO: (timeZone?: unknown) => zonedDateTime(timeZone).toPlainDateTime(),
+    plainDateISO: (timeZone?: unknown) => zonedDateTime(timeZone).toPlainDate(),
+    plainTimeISO: (timeZone?: unknown) => zonedDateTime(timeZone).toPlainTime(),
+  };
+  Object.defineProperty(now, Symbol.toStringTag, { configurable: true, value: "Temporal.Now" });
+  Object.defineProperty(Temporal, "Now", { configurable: true, writable: true, value: now });
+}
+
+/**
+ * Makes everything that reads the current date, like `Date`,
+ * `Intl.DateTimeFormat` and `Temporal.Now`, get it from `getTime()`.
+ */
+export function replaceWallClock(getTime: () => number) {
+  replaceDate(getTime);
+  replaceDateTimeFormat(getTime);
+  replaceTemporalNow(getTime);
+}
+
+/**
+ * Removes the performance timeline, like `performance.mark()`,
+ * `PerformanceObserver` and resource timings, whose entries carry timestamps
+ * from the real clock. Only `performance.now()` and `performance.timeOrigin`
+ * are kept, for the caller to replace.
+ */
+export function removePerformanceTimeline() {
+  if (typeof performance !== "undefined") {
+    const performanceProto = Object.getPrototypeOf(performance);
+    for (const key of Object.getOwnPropertyNames(performanceProto)) {
+      if (key !== "constructor" && key !== "now" && key !== "timeOrigin") {
+        delete performanceProto[key];
+      }
+    }
+  }
+  // PerformanceMark, PerformanceObserver and the other entry types
+  for (const key of Object.getOwnPropertyNames(globalThis)) {
+    if (key.startsWith("Performance") && key !== "Performance") {
+      delete (globalThis as Record<string, unknown>)[key];
+    }
+  }
+}
+
+function installClock(getTime: () => number) {
+  const timeOrigin = getTime();
+  replaceWallClock(getTime);
+  removePerformanceTimeline();
+
+  if (typeof performance !== "undefined") {
+    const performanceProto = Object.getPrototypeOf(performance);
+    Object.defineProperty(performanceProto, "now", {
+      configurable: true,
+      writable: true,
+      value: () => getTime() - timeOrigin,
+    });
+    Object.defineProperty(performanceProto, "timeOrigin", {
+      configurable: true,
+      get: () => timeOrigin,
+    });
+  }
+
+  if (typeof Event !== "undefined") {
+    Object.defineProperty(Event.prototype, "timeStamp", {
+      configurable: true,
+      get: () => getTime() - timeOrigin,
+    });
+  }
+}
+
+/**
+ * Replaces the timer functions with ones that advance the virtual clock.
+ * Timers only fire while `isRunning()` returns true, so that intervals left
+ * behind by earlier runs don't keep the worker busy between runs.
+ *
+ * @returns A function to call when a run starts, to fire any pending timers.
+ */
+function installVirtualTimers(clock: { time: number }, isRunning: () => boolean): () => void {
+  const timers = new Map<number, Timer>();
+  let nextTimerId = 1;
+  let scheduled = false;
+
+  // Fires timers in separate tasks, so that promises settle in between. Unlike
+  // setTimeout(fn, 0), messages aren't throttled when they're nested.
+  const channel = new MessageChannel();
+  channel.port1.onmessage = fireNext;
+
+  function schedule() {
+    if (!scheduled && timers.size > 0 && isRunning()) {
+      scheduled = true;
+      channel.port2.postMessage(null);
+    }
+  }
+
+  function fireNext() {
+    scheduled = false;
+    if (!isRunning()) {
+      return;
+    }
+    // Timers are in the order they were created, which breaks ties
+    let nextId: number | undefined;
+    let next: Timer | undefined;
+    for (const [id, timer] of timers) {
+      if (!next || timer.time < next.time) {
+        nextId = id;
+        next = timer;
+      }
+    }
+    if (nextId === undefined || !next) {
+      return;
+    }
+    clock.time = Math.max(clock.time, next.time);
+    if (next.interval === undefined) {
+      timers.delete(nextId);
+    } else {
+      next.time = clock.time + next.interval;
+    }
+    try {
+      next.callback(...next.args);
+    } finally {
+      schedule();
+    }
+  }
+
+  function addTimer(callback: unknown, delay: unknown, args: unknown[], repeat: boolean) {
+    if (typeof callback !== "function") {
+      throw new TypeError("Timers in deterministic mode only accept functions");
+    }
+    const ms = Math.max(repeat ? 1 : 0, Number(delay) || 0);
+    const id = nextTimerId++;
+    timers.set(id, {
+      time: clock.time + ms,
+      callback: callback as Timer["callback"],
+      args,
+      interval: repeat ? ms : undefined,
+    });
+    schedule();
+    return id;
+  }
+
+  const clearTimer = (id: unknown) => {
+    timers.delete(Number(id));
+  };
+
+  Object.assign(globalThis, {
+    setTimeout: (callback: unknown, delay?: unknown, ...args: unknown[]) =>
+      addTimer(callback, delay, args, false),
+    setInterval: (callback: unknown, delay?: unknown, ...args: unknown[]) =>
+      addTimer(callback, delay, args, true),
+    clearTimeout: clearTimer,
+    clearInterval: clearTimer,
+  });
+  return schedule;
+}
+
+/**
+ * Makes random numbers and the clock inside the worker reproducible.
+ *
+ * @param isRunning - Whether sandboxed code is running, see
+ *   {@link installVirtualTimers}.
+ * @returns A function to call when a run starts.
+ */
+export function installDeterminism(
+  config: DeterministicConfig,
+  isRunning: () => boolean,
+): () => void {
+  const clock = { time: config.now };
+  installRandom(config.seed);
+  installClock(() => clock.time);
+  if (config.virtualTimers) {
+    return installVirtualTimers(clock, isRunning);
+  }
+  return () => {};
+}
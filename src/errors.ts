@@ -0,0 +1,156 @@
+import type { ConsoleEntry } from "./console";
+
+/**
+ * Base class for errors thrown by slopjail.
+ */
+export class SandboxError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "SandboxError";
+  }
+}
+
+/**
+ * Thrown when a call to {@link Sandbox.run}, {@link Sandbox.exec} or
+ * {@link Sandbox.evaluate} exceeds its timeout.
+ */
+export class SandboxTimeoutError extends SandboxError {
+  /**
+   * Whether the worker was terminated to stop the runaway code, discarding any
+   * state built up by previous runs.
+   */
+  readonly stateLost: boolean;
+
+  /**
+   * Console output logged before the timeout, for calls to {@link Sandbox.run}
+   * and {@link Sandbox.exec}.
+   */
+  logs?: ConsoleEntry[];
+
+  constructor(stateLost: boolean) {
+    super("Execution timed out");
+    this.name = "SandboxTimeoutError";
+    this.stateLost = stateLost;
+  }
+}
+
+/**
+ * Thrown when a call to {@link Sandbox.run}, {@link Sandbox.exec} or
+ * {@link Sandbox.evaluate} is cancelled with {@link ExecutionOptions.signal}.
+ * The signal's reason is kept as `cause`.
+ */
+export class SandboxAbortedError extends SandboxError {
+  /**
+   * Whether the worker was terminated to stop the guest code, discarding any
+   * state built up by previous runs.
+   */
+  readonly stateLost: boolean;
+
+  /**
+   * Console output logged before the call was aborted, for calls to
+   * {@link Sandbox.run} and {@link Sandbox.exec}.
+   */
+  logs?: ConsoleEntry[];
+
+  constructor(stateLost: boolean, reason: unknown) {
+    super("Execution was aborted", { cause: reason });
+    this.name = "SandboxAbortedError";
+    this.stateLost = stateLost;
+  }
+}
+
+/**
+ * Thrown when using a sandbox after it has been disposed, and by calls that
+ * were still pending when it was.
+ */
+export class SandboxDisposedError extends SandboxError {
+  constructor(message = "Sandbox has been disposed") {
+    super(message);
+    this.name = "SandboxDisposedError";
+  }
+}
+
+/**
+ * Thrown by calls that were still pending when the sandbox restarted its worker
+ * because another call timed out or was aborted.
+ */
+export class SandboxRestartedError extends SandboxError {
+  constructor(message = "Sandbox was restarted") {
+    super(message);
+    this.name = "SandboxRestartedError";
+  }
+}
+
+/**
+ * Thrown to sandboxed code that calls a host function revoked with
+ * {@link Sandbox.revoke}, or a method of a returned value that it has released.
+ */
+export class SandboxRevokedError extends SandboxError {
+  constructor(message = "Function has been revoked") {
+    super(message);
+    this.name = "SandboxRevokedError";
+  }
+}
+
+/**
+ * An error thrown by code running inside the sandbox.
+ *
+ * Keeps the `name`, `message` and `stack` of the original error, so
+ * `String(err)` reads like the error would inside the sandbox, for example
+ * `"TypeError: Cannot read properties of undefined"`. Use `instanceof` to tell
+ * guest errors apart from other errors.
+ *
+ * Locations in `stack` refer to code passed to {@link Sandbox.run} as
+ * `run-<n>`, with lines and columns relative to that code.
+ */
+export class SandboxGuestError extends SandboxError {
+  /**
+   * For an `AggregateError`, the errors it aggregates. Errors are converted to
+   * {@link SandboxGuestError}s, other values are kept as they are.
+   */
+  readonly errors?: unknown[];
+
+  /**
+   * Console output logged before the error was thrown, for errors thrown by
+   * code passed to {@link Sandbox.run} and {@link Sandbox.exec}.
+   */
+  logs?: ConsoleEntry[];
+
+  constructor(
+    name: string,
+    message: string,
+    stack: string | undefined,
+    options?: { cause?: unknown; errors?: unknown[] },
+  ) {
+    super(message, options && "cause" in options ? { cause: options.cause } : undefined);
+    this.name = name;
+    this.stack = stack ?? `${name}: ${message}`;
+    if (options?.errors) {
+      this.errors = options.errors;
+    }
+  }
+}
+
+/**
+ * Thrown when code passed to the sandbox fails to parse.
+ */
+export class SandboxSyntaxError extends SandboxGuestError {
+  /**
+   * 1-based line of the error within the submitted code, if it could be
+   * determined.
+   */
+  readonly line?: number;
+
+  /**
+   * 1-based column of the error within the submitted code, if it could be
+   * determined.
+   */
+  readonly column?: number;
+
+  constructor(message: string, location?: { line: number; column: number }) {
+    const where = location ? ` (${location.line}:${location.column})` : "";
+    super("SyntaxError", message, `SyntaxError: ${message}${where}`);
+    this.line = location?.line;
+    this.column = location?.column;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Options for {@link exposeInstance}.
+ */
+export type ExposeInstanceOptions = {
+  /**
+   * Also expose getters found on the prototype chain. Inside the sandbox,
+   * reading one calls the getter on the host and returns a promise of its
+   * value.
+   *
+   * Defaults to `false`.
+   */
+  getters?: boolean;
+};
+
+const exposedInstances = new WeakMap<object, ExposeInstanceOptions>();
+
+/**
+ * Marks a class instance so that its methods are exposed to the sandbox.
+ *
+ * By default, values that aren't plain objects are structured cloned, which
+ * drops any methods inherited from a prototype. Marked instances are instead
+ * traversed like plain objects: their own properties are copied, and methods
+ * from their prototype chain become RPC proxies with `this` bound to the
+ * instance.
+ *
+ * Works both for {@link CreateSandboxOptions.globals} and for values returned
+ * from host functions.
+ *
+ * @param instance - The object to expose.
+ * @param opts - Exposure options.
+ * @returns The same instance, for convenience.
+ *
+ * @example
+ * ```typescript
+ * const sandbox = await createSandbox({
+ *   globals: {
+ *     github: exposeInstance(new GitHubClient(token)),
+ *   },
+ * })
+ *
+ * await sandbox.run('console.log(await github.getRepo("aduros/slopjail"))')
+ * ```
+ */
+export function exposeInstance<T extends object>(instance: T, opts?: ExposeInstanceOptions): T {
+  exposedInstances.set(instance, opts ?? {});
+  return instance;
+}
+
+/** Returns the options an instance was exposed with, if it was passed to {@link exposeInstance}. */
+export function getExposeOptions(value: object): ExposeInstanceOptions | undefined {
+  return exposedInstances.get(value);
+}
+
+/**
+ * Collects the members of an exposed instance: its own enumerable properties,
+ * followed by methods and (optionally) getters from its prototype chain up to,
+ * but not including, `Object.prototype`. Getters are returned already bound to
+ * the instance.
+ */
+export function getInstanceMembers(
+  instance: object,
+  opts: ExposeInstanceOptions,
+): {
+  values: Array<[string, unknown]>;
+  getters: Array<[string, () => unknown]>;
+} {
+  const values = Object.entries(instance);
+  const getters: Array<[string, () => unknown]> = [];
+
+  const seen = new Set(Object.keys(instance));
+  seen.add("constructor");
+
+  let proto = Object.getPrototypeOf(instance);
+  while (proto && proto !== Object.prototype) {
+    for (const key of Object.getOwnPropertyNames(proto)) {
+      if (seen.has(key)) {
+        // Shadowed by the instance or a subclass
+        continue;
+      }
+      seen.add(key);
+
+      // biome-ignore lint/style/noNonNullAssertion: key comes from getOwnPropertyNames
+      const desc = Object.getOwnPropertyDescriptor(proto, key)!;
+      if (typeof desc.value === "function") {
+        values.push([key, desc.value]);
+      } else if (desc.get && opts.getters) {
+        getters.push([key, () => desc.get?.call(instance)]);
+      }
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+
+  return { values, getters };
+}
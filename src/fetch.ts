@@ -0,0 +1,154 @@
+// With CreateSandboxOptions.fetch, the worker's fetch() sends requests to the
+// host, which applies the policy and makes them on the sandbox's behalf. The
+// CSP still blocks the worker from reaching the network directly, so secrets
+// added by the policy never enter the sandbox.
+
+/** A request as sent from the worker to the host. */
+export type SerializedRequest = {
+  url: string;
+  method: string;
+  headers: Array<[string, string]>;
+  body?: ArrayBuffer;
+};
+
+/** A response as sent from the host to the worker. */
+export type SerializedResponse = {
+  status: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  body: ArrayBuffer | null;
+};
+
+/**
+ * What {@link FetchOptions.onRequest} decides to do with a request: `false`
+ * to deny it, a `Request` to send instead, or anything else to send it as it
+ * is.
+ */
+// biome-ignore lint/suspicious/noConfusingVoidType: allows hooks that return nothing
+export type FetchDecision = boolean | Request | undefined | void;
+
+/**
+ * Options for {@link CreateSandboxOptions.fetch}.
+ */
+export type FetchOptions = {
+  /**
+   * Called on the host for every request made with `fetch()` inside the
+   * sandbox. Return `false` to deny the request, which rejects it inside the
+   * sandbox with a `TypeError`, or throw to reject it with your own message.
+   * Return a `Request` to send it instead, for example with an added
+   * `Authorization` header, or anything else to send the request as it is.
+   *
+   * Requests are always sent without cookies, so authenticate with headers.
+   */
+  onRequest: (request: Request) => FetchDecision | Promise<FetchDecision>;
+
+  /**
+   * Maximum size of a response body in bytes. Larger responses reject inside
+   * the sandbox.
+   *
+   * Defaults to `10485760` (10 MiB).
+   */
+  maxResponseSize?: number;
+
+  /**
+   * Whether to follow redirects. Off by default, since {@link onRequest} only
+   * sees the URL that was requested, not the ones it redirects to, so
+   * redirects fail instead.
+   */
+  followRedirects?: boolean;
+
+  /** The function used to send requests. Defaults to the global `fetch`. */
+  fetch?: (request: Request) => Promise<Response>;
+};
+
+// Statuses whose responses can't be constructed with a body
+const nullBodyStatuses = new Set([101, 103, 204, 205, 304]);
+
+// Taken when the worker loads, since the globals policy may remove it from the
+// global scope
+const { Response } = globalThis;
+
+export async function serializeRequest(request: Request): Promise<SerializedRequest> {
+  const serialized: SerializedRequest = {
+    url: request.url,
+    method: request.method,
+    headers: [...request.headers],
+  };
+  if (request.body) {
+    serialized.body = await request.arrayBuffer();
+  }
+  return serialized;
+}
+
+export function deserializeResponse(response: SerializedResponse): Response {
+  return new Response(nullBodyStatuses.has(response.status) ? null : response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/** Reads a response body, failing once it grows larger than `maxSize` bytes. */
+async function readBody(response: Response, maxSize: number): Promise<ArrayBuffer | null> {
+  if (!response.body) {
+    return null;
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw new TypeError(`Response body is larger than ${maxSize} bytes`);
+    }
+    chunks.push(value);
+  }
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body.buffer;
+}
+
+/**
+ * Creates the host's side of the sandbox's `fetch()`, which applies the
+ * policy in `opts` to each request before sending it.
+ */
+export function createFetchHandler(
+  opts: FetchOptions,
+): (request: SerializedRequest, signal: AbortSignal) => Promise<SerializedResponse> {
+  const maxResponseSize = opts.maxResponseSize ?? 10 * 1024 * 1024;
+  const send = opts.fetch ?? ((request) => fetch(request));
+
+  return async ({ url, method, headers, body }, signal) => {
+    let request = new Request(url, { method, headers, ...(body && { body }) });
+    const decision = await opts.onRequest(request);
+    if (decision === false) {
+      throw new TypeError(`Request to ${url} was denied`);
+    }
+    if (decision instanceof Request) {
+      request = decision;
+    }
+
+    const response = await send(
+      new Request(request, {
+        credentials: "omit",
+        redirect: opts.followRedirects ? "follow" : "error",
+        signal,
+      }),
+    );
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: [...response.headers],
+      body: await readBody(response, maxResponseSize),
+    };
+  };
+}
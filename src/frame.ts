@@ -0,0 +1,60 @@
+// Runs the workers of a sandbox inside a hidden iframe, the default backend in
+// browsers. See iframe.ts for the script that runs inside the iframe.
+
+import { type ContentSecurityPolicy, renderContentSecurityPolicy } from "./contentSecurityPolicy";
+import type { CreateBackend, CreateSandboxOptions } from "./host";
+import iframeSource from "./iframe?bundled";
+import workerSource from "./worker?bundled";
+
+/** Runs workers inside a hidden iframe with a strict Content-Security-Policy. */
+export function createIframeBackend(
+  cspOpts: CreateSandboxOptions["contentSecurityPolicy"],
+): CreateBackend {
+  return async (name) => {
+    if (typeof document === "undefined") {
+      throw new Error(
+        "Creating a sandbox needs a DOM. From a worker, pass the connector option, see serveSandboxes()",
+      );
+    }
+    const controlChannel = new MessageChannel();
+
+    const iframe = await new Promise<HTMLIFrameElement>((resolve, reject) => {
+      const iframe = document.createElement("iframe");
+      iframe.sandbox = "allow-scripts";
+      iframe.name = name;
+
+      const csp: ContentSecurityPolicy = {
+        "default-src": ["'none'"],
+        "script-src": ["data:", "'unsafe-inline'", "'unsafe-eval'", ...(cspOpts?.scriptSrc ?? [])],
+        "connect-src": cspOpts?.connectSrc ?? [],
+      };
+
+      // We don't need to worry about escaping "</script>" in iframeSource. Any occurences of this
+      // string will be caught in tests.
+      iframe.srcdoc = `<head><meta http-equiv="Content-Security-Policy" content="${renderContentSecurityPolicy(csp)}"></head><body><script>${iframeSource}</script></body>`;
+
+      iframe.addEventListener("load", () => {
+        // biome-ignore lint/style/noNonNullAssertion: fail fast if contentWindow is ever null here
+        iframe.contentWindow!.postMessage({ type: "slopjail:init", name, workerSource }, "*", [
+          controlChannel.port1,
+        ]);
+        resolve(iframe);
+      });
+      iframe.addEventListener("error", reject);
+
+      iframe.style.display = "none";
+      document.body.appendChild(iframe);
+    });
+
+    return {
+      spawn(port) {
+        controlChannel.port2.postMessage({ type: "slopjail:spawn" }, [port]);
+      },
+
+      dispose() {
+        controlChannel.port2.close();
+        iframe.remove();
+      },
+    };
+  };
+}
@@ -0,0 +1,303 @@
+// An in-memory filesystem stored on the host. The same object backs
+// Sandbox.fs on the host and, as a global of host functions, `fs` inside the
+// sandbox, so files outlive worker restarts and calls from the sandbox go
+// through onHostCall, audit and schema validation like any other.
+
+import { withSchema } from "./schema";
+
+/**
+ * Options for {@link CreateSandboxOptions.fs}.
+ */
+export type FileSystemOptions = {
+  /** Files to create, keyed by path. Strings are stored as UTF-8. */
+  files?: Record<string, string | Uint8Array>;
+
+  /**
+   * Maximum total size of all files in bytes. Writes that would exceed it
+   * fail with an `ENOSPC` error.
+   *
+   * Defaults to `104857600` (100 MiB).
+   */
+  maxSize?: number;
+
+  /**
+   * Maximum size of a single file in bytes. Writes that would exceed it fail
+   * with an `EFBIG` error. Defaults to {@link maxSize}.
+   */
+  maxFileSize?: number;
+};
+
+/** Information about a file or directory, returned by {@link VirtualFileSystem.stat}. */
+export type FileStat = {
+  type: "file" | "directory";
+
+  /** Size in bytes. Always `0` for directories. */
+  size: number;
+
+  /** Milliseconds since the epoch when the file, or any file in the directory, was last written. */
+  modified: number;
+};
+
+/**
+ * An in-memory filesystem shared between the host and the sandbox, see
+ * {@link Sandbox.fs}.
+ *
+ * Paths are resolved against the root, so `"data.csv"` and `"/data.csv"` are
+ * the same file. Directories exist implicitly as long as they contain files.
+ * Inside the sandbox, every method returns a promise.
+ */
+export type VirtualFileSystem = {
+  /** Reads a file as bytes, or as a string if an encoding is given. */
+  readFile(path: string): Uint8Array;
+  readFile(path: string, encoding: "utf8" | "utf-8"): string;
+
+  /** Creates or replaces a file. Strings are written as UTF-8. */
+  writeFile(path: string, data: string | Uint8Array | ArrayBuffer): void;
+
+  /** Appends to a file, creating it if it doesn't exist. */
+  appendFile(path: string, data: string | Uint8Array | ArrayBuffer): void;
+
+  /** Whether a file or directory exists. */
+  exists(path: string): boolean;
+
+  stat(path: string): FileStat;
+
+  /** Returns the names of the files and directories in a directory, sorted. */
+  readdir(path?: string): string[];
+
+  /** Returns the paths of all files in a directory and its subdirectories, sorted. */
+  list(path?: string): string[];
+
+  /** Deletes a file, or a directory with `recursive: true`. */
+  rm(path: string, opts?: { recursive?: boolean }): void;
+};
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split("/")) {
+    if (part === "..") {
+      parts.pop();
+    } else if (part !== "" && part !== ".") {
+      parts.push(part);
+    }
+  }
+  return `/${parts.join("/")}`;
+}
+
+function toBytes(data: unknown): Uint8Array {
+  if (typeof data === "string") {
+    return new TextEncoder().encode(data);
+  }
+  if (data instanceof ArrayBuffer) {
+    return new Uint8Array(data.slice(0));
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice();
+  }
+  throw new TypeError("data must be a string, Uint8Array or ArrayBuffer");
+}
+
+const pathParam = { name: "path", type: "string" } as const;
+const dataParam = {
+  name: "data",
+  description: "A string, or bytes as a Uint8Array or ArrayBuffer",
+} as const;
+
+/** Creates an empty filesystem, or one with the files in `opts`. */
+export function createFileSystem(opts?: FileSystemOptions): VirtualFileSystem {
+  const maxSize = opts?.maxSize ?? 100 * 1024 * 1024;
+  const maxFileSize = opts?.maxFileSize ?? maxSize;
+
+  const files = new Map<string, { data: Uint8Array; modified: number }>();
+  let totalSize = 0;
+
+  /** Returns the paths of the files in a directory and its subdirectories. */
+  function filesIn(dir: string): string[] {
+    const prefix = dir === "/" ? "/" : `${dir}/`;
+    return [...files.keys()].filter((path) => path.startsWith(prefix)).sort();
+  }
+
+  function isDirectory(path: string) {
+    return path === "/" || filesIn(path).length > 0;
+  }
+
+  function getFile(path: string) {
+    const file = files.get(path);
+    if (!file) {
+      throw new Error(
+        isDirectory(path)
+          ? `EISDIR: illegal operation on a directory, '${path}'`
+          : `ENOENT: no such file or directory, '${path}'`,
+      );
+    }
+    return file;
+  }
+
+  function write(path: string, data: Uint8Array) {
+    if (isDirectory(path)) {
+      throw new Error(`EISDIR: illegal operation on a directory, '${path}'`);
+    }
+    for (let i = path.indexOf("/", 1); i !== -1; i = path.indexOf("/", i + 1)) {
+      if (files.has(path.slice(0, i))) {
+        throw new Error(`ENOTDIR: not a directory, '${path.slice(0, i)}'`);
+      }
+    }
+    if (data.byteLength > maxFileSize) {
+      throw new Error(`EFBIG: file too large, '${path}' would exceed ${maxFileSize} bytes`);
+    }
+    const newTotalSize = totalSize - (files.get(path)?.data.byteLength ?? 0) + data.byteLength;
+    if (newTotalSize > maxSize) {
+      throw new Error(`ENOSPC: no space left, files would exceed ${maxSize} bytes`);
+    }
+    files.set(path, { data, modified: Date.now() });
+    totalSize = newTotalSize;
+  }
+
+  const fileSystem = {
+    readFile: withSchema(
+      (path: string, encoding?: "utf8" | "utf-8") => {
+        const { data } = getFile(normalizePath(path));
+        return encoding ? new TextDecoder().decode(data) : data.slice();
+      },
+      {
+        description: "Reads a file as bytes, or as a string if an encoding is given",
+        params: [pathParam, { name: "encoding", enum: ["utf8", "utf-8"], optional: true }],
+      },
+    ),
+
+    writeFile: withSchema(
+      (path: string, data: string | Uint8Array | ArrayBuffer) => {
+        write(normalizePath(path), toBytes(data));
+      },
+      {
+        description: "Creates or replaces a file. Strings are written as UTF-8",
+        params: [pathParam, dataParam],
+      },
+    ),
+
+    appendFile: withSchema(
+      (path: string, data: string | Uint8Array | ArrayBuffer) => {
+        const normalized = normalizePath(path);
+        const existing = files.get(normalized)?.data ?? new Uint8Array();
+        const added = toBytes(data);
+        const combined = new Uint8Array(existing.byteLength + added.byteLength);
+        combined.set(existing);
+        combined.set(added, existing.byteLength);
+        write(normalized, combined);
+      },
+      {
+        description: "Appends to a file, creating it if it doesn't exist",
+        params: [pathParam, dataParam],
+      },
+    ),
+
+    exists: withSchema(
+      (path: string) => {
+        const normalized = normalizePath(path);
+        return files.has(normalized) || isDirectory(normalized);
+      },
+      {
+        description: "Whether a file or directory exists",
+        params: [pathParam],
+        returns: { type: "boolean" },
+      },
+    ),
+
+    stat: withSchema(
+      (path: string): FileStat => {
+        const normalized = normalizePath(path);
+        const file = files.get(normalized);
+        if (file) {
+          return { type: "file", size: file.data.byteLength, modified: file.modified };
+        }
+        const contents = filesIn(normalized);
+        if (normalized !== "/" && contents.length === 0) {
+          throw new Error(`ENOENT: no such file or directory, '${normalized}'`);
+        }
+        // biome-ignore lint/style/noNonNullAssertion: paths come from the map
+        const modified = Math.max(0, ...contents.map((path) => files.get(path)!.modified));
+        return { type: "directory", size: 0, modified };
+      },
+      {
+        description: "Returns the type, size and modification time of a file or directory",
+        params: [pathParam],
+        returns: {
+          type: "object",
+          properties: {
+            type: { enum: ["file", "directory"] },
+            size: { type: "number" },
+            modified: { type: "number" },
+          },
+          required: ["type", "size", "modified"],
+        },
+      },
+    ),
+
+    readdir: withSchema(
+      (path = "/") => {
+        const normalized = normalizePath(path);
+        if (files.has(normalized)) {
+          throw new Error(`ENOTDIR: not a directory, '${normalized}'`);
+        }
+        if (!isDirectory(normalized)) {
+          throw new Error(`ENOENT: no such file or directory, '${normalized}'`);
+        }
+        const start = normalized === "/" ? 1 : normalized.length + 1;
+        const names = filesIn(normalized).map((file) => file.slice(start).split("/")[0]);
+        return [...new Set(names)].sort();
+      },
+      {
+        description: "Returns the names of the files and directories in a directory, sorted",
+        params: [{ ...pathParam, optional: true }],
+        returns: { type: "array", items: { type: "string" } },
+      },
+    ),
+
+    list: withSchema((path = "/") => filesIn(normalizePath(path)), {
+      description: "Returns the paths of all files in a directory and its subdirectories, sorted",
+      params: [{ ...pathParam, optional: true }],
+      returns: { type: "array", items: { type: "string" } },
+    }),
+
+    rm: withSchema(
+      (path: string, opts?: { recursive?: boolean }) => {
+        const normalized = normalizePath(path);
+        const file = files.get(normalized);
+        if (file) {
+          files.delete(normalized);
+          totalSize -= file.data.byteLength;
+          return;
+        }
+        const contents = filesIn(normalized);
+        if (contents.length === 0) {
+          throw new Error(`ENOENT: no such file or directory, '${normalized}'`);
+        }
+        if (!opts?.recursive) {
+          throw new Error(`EISDIR: '${normalized}' is a directory, use { recursive: true }`);
+        }
+        for (const path of contents) {
+          // biome-ignore lint/style/noNonNullAssertion: paths come from the map
+          totalSize -= files.get(path)!.data.byteLength;
+          files.delete(path);
+        }
+      },
+      {
+        description: "Deletes a file, or a directory with recursive: true",
+        params: [
+          pathParam,
+          {
+            name: "opts",
+            type: "object",
+            optional: true,
+            properties: { recursive: { type: "boolean" } },
+          },
+        ],
+      },
+    ),
+  };
+
+  for (const [path, data] of Object.entries(opts?.files ?? {})) {
+    fileSystem.writeFile(path, data);
+  }
+  return fileSystem as VirtualFileSystem;
+}
@@ -0,0 +1,167 @@
+// Decides which of the worker's own globals sandboxed code can reach. The host
+// resolves CreateSandboxOptions.globalsPolicy into a list of names, and the
+// worker removes them (or everything else) before any code runs.
+
+/**
+ * A built-in {@link GlobalsPolicy}:
+ *
+ * - `"default"`: remove APIs that could be used for fingerprinting, and
+ *   nested workers, which would get a fresh global scope.
+ * - `"strict"`: also remove APIs that keep state or talk to other contexts,
+ *   like `indexedDB`, `caches`, `BroadcastChannel` and `WebSocket`.
+ * - `"ecmascript"`: remove everything that isn't an ECMAScript built-in, like
+ *   `Object`, `Promise` or `JSON`, leaving only those, the globals and
+ *   features given to the sandbox, and the {@link requiredGlobals} the worker
+ *   talks to the host with.
+ */
+export type GlobalsPreset = "default" | "strict" | "ecmascript";
+
+/**
+ * Which runtime APIs sandboxed code can use, for
+ * {@link CreateSandboxOptions.globalsPolicy}.
+ */
+export type GlobalsPolicy = {
+  /** The preset to start from. Defaults to `"default"`. */
+  preset?: GlobalsPreset;
+
+  /** More globals to remove. */
+  block?: string[];
+
+  /**
+   * Globals to keep, even if the preset removes them. With the `"ecmascript"`
+   * preset, these are added to the built-ins, for example `"setTimeout"`.
+   */
+  allow?: string[];
+};
+
+/**
+ * The functions the worker uses to talk to the host, which can't be removed.
+ * Policies that keep only some globals keep these too.
+ */
+export const requiredGlobals = [
+  "postMessage",
+  "addEventListener",
+  "removeEventListener",
+  "dispatchEvent",
+];
+
+/** A policy resolved to the names to remove, or to the only names to keep. */
+export type ResolvedGlobalsPolicy = { block: string[] } | { allow: string[] };
+
+const defaultBlocked = [
+  "name",
+  "navigator",
+  "location",
+  "requestAnimationFrame",
+
+  // We need to block nested Worker creation since a child Worker would get a
+  // fresh global scope with unblocked APIs.
+  "Worker",
+  "SharedWorker",
+];
+
+const strictBlocked = [
+  ...defaultBlocked,
+  "indexedDB",
+  "caches",
+  "BroadcastChannel",
+  "WebSocket",
+  "WebSocketStream",
+  "WebTransport",
+  "EventSource",
+  "importScripts",
+  "OffscreenCanvas",
+];
+
+// The global properties defined by ECMAScript and ECMA-402
+const ecmascriptGlobals = [
+  "globalThis",
+  "Infinity",
+  "NaN",
+  "undefined",
+  "eval",
+  "isFinite",
+  "isNaN",
+  "parseFloat",
+  "parseInt",
+  "decodeURI",
+  "decodeURIComponent",
+  "encodeURI",
+  "encodeURIComponent",
+  "escape",
+  "unescape",
+  "AggregateError",
+  "Array",
+  "ArrayBuffer",
+  "Atomics",
+  "BigInt",
+  "BigInt64Array",
+  "BigUint64Array",
+  "Boolean",
+  "DataView",
+  "Date",
+  "Error",
+  "EvalError",
+  "FinalizationRegistry",
+  "Float16Array",
+  "Float32Array",
+  "Float64Array",
+  "Function",
+  "Int8Array",
+  "Int16Array",
+  "Int32Array",
+  "Intl",
+  "Iterator",
+  "JSON",
+  "Map",
+  "Math",
+  "Number",
+  "Object",
+  "Promise",
+  "Proxy",
+  "RangeError",
+  "ReferenceError",
+  "Reflect",
+  "RegExp",
+  "Set",
+  "SharedArrayBuffer",
+  "String",
+  "Symbol",
+  "SyntaxError",
+  "TypeError",
+  "Uint8Array",
+  "Uint8ClampedArray",
+  "Uint16Array",
+  "Uint32Array",
+  "URIError",
+  "WeakMap",
+  "WeakRef",
+  "WeakSet",
+];
+
+/**
+ * Resolves a policy, or the preset it's named after, to what the worker should
+ * remove. Throws if the policy blocks one of the {@link requiredGlobals}.
+ */
+export function resolveGlobalsPolicy(
+  policy: GlobalsPreset | GlobalsPolicy | undefined,
+): ResolvedGlobalsPolicy {
+  const {
+    preset = "default",
+    block = [],
+    allow = [],
+  } = typeof policy === "string" ? { preset: policy } : (policy ?? {});
+  const required = block.filter((name) => requiredGlobals.includes(name));
+  if (required.length > 0) {
+    throw new TypeError(
+      `Can't block ${required.join(", ")}, which the sandbox needs to talk to the host`,
+    );
+  }
+  if (preset === "ecmascript") {
+    const blocked = new Set(block);
+    return { allow: [...ecmascriptGlobals, ...allow].filter((name) => !blocked.has(name)) };
+  }
+  const allowed = new Set(allow);
+  const names = [...(preset === "strict" ? strictBlocked : defaultBlocked), ...block];
+  return { block: [...new Set(names)].filter((name) => !allowed.has(name)) };
+}
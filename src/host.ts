@@ -1,17 +1,130 @@
 import { createMessagePortClient, createMessagePortServer, type Service } from "shrimp-rpc";
 
-import { type ContentSecurityPolicy, renderContentSecurityPolicy } from "./contentSecurityPolicy";
-import iframeSource from "./iframe?bundled";
-import type { GuestService } from "./worker";
-import workerSource from "./worker?bundled";
+import type { AuditEvent } from "./audit";
+import { exportLastExpression } from "./completion";
+import { createConnectorBackend, type SandboxConnector } from "./connector";
+import { type ConsoleEntry, formatValue } from "./console";
+import type { DeterministicOptions } from "./deterministic";
+import {
+  SandboxAbortedError,
+  SandboxDisposedError,
+  SandboxGuestError,
+  SandboxRestartedError,
+  SandboxRevokedError,
+  SandboxSyntaxError,
+  SandboxTimeoutError,
+} from "./errors";
+import { getExposeOptions, getInstanceMembers } from "./expose";
+import {
+  createFetchHandler,
+  type FetchOptions,
+  type SerializedRequest,
+  type SerializedResponse,
+} from "./fetch";
+import { createIframeBackend } from "./frame";
+import { createFileSystem, type FileSystemOptions, type VirtualFileSystem } from "./fs";
+import { type GlobalsPolicy, type GlobalsPreset, resolveGlobalsPolicy } from "./globals";
+import { decodeFunctions, type Encoded, encodeFunctions, isPlainObject } from "./marshal";
+import { createModuleLinker, type ModuleResolver } from "./modules";
+import { type FunctionSchema, getFunctionSchema, validate, validateArguments } from "./schema";
+import { createLocationMapper, mapStackLocations, type SourceMap } from "./sourceMap";
+import type { TimingOptions } from "./timing";
+import type { GuestService, Thrown, WorkerConfig } from "./worker";
 
 export type HostService = Service<{
-  onMethod(params: { methodId: number; params: unknown[] }): unknown;
+  onMethod(params: { methodId: number; runId?: number; params: Encoded }): Encoded;
+
+  releaseMethod(params: { methodId: number }): void;
+
+  onConsole(entry: ConsoleEntry): void;
+
+  onFetch(request: SerializedRequest): SerializedResponse;
 }>;
 
-function isPlainObject(value: object): boolean {
-  const proto = Object.getPrototypeOf(value);
-  return proto === Object.prototype || proto === null;
+let currentAbortSignal: AbortSignal | undefined;
+
+/**
+ * Returns an `AbortSignal` for the host function currently being called from
+ * inside a sandbox. The signal is aborted when the run that made the call is
+ * cancelled with {@link ExecutionOptions.signal} or times out, or when the
+ * worker that made the call goes away, for example because the sandbox was
+ * disposed.
+ *
+ * Must be called synchronously from a function exposed via
+ * {@link CreateSandboxOptions.globals}, before its first `await`.
+ *
+ * @example
+ * ```typescript
+ * const sandbox = await createSandbox({
+ *   globals: {
+ *     download: async (url: string) => {
+ *       const res = await fetch(url, { signal: getAbortSignal() })
+ *       return res.text()
+ *     },
+ *   },
+ * })
+ * ```
+ */
+export function getAbortSignal(): AbortSignal {
+  if (!currentAbortSignal) {
+    throw new Error("getAbortSignal() must be called synchronously from a host function");
+  }
+  return currentAbortSignal;
+}
+
+// How long a run that was aborted while waiting on host functions gets to
+// settle before its worker is interrupted
+const abortGracePeriod = 200;
+
+/**
+ * Calls a callback from the options, reporting anything it throws as an
+ * uncaught error rather than letting it interrupt the caller.
+ */
+function callListener<T>(listener: ((value: T) => void) | undefined, value: T) {
+  try {
+    listener?.(value);
+  } catch (err) {
+    queueMicrotask(() => {
+      throw err;
+    });
+  }
+}
+
+/** Returns a promise that rejects with the signal's reason once it's aborted. */
+function whenAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+  });
+}
+
+/** Recreates a value thrown inside the sandbox, turning errors into {@link SandboxGuestError}s. */
+function reviveThrown(thrown: Thrown, mapStack: (stack: string) => string): unknown {
+  if (thrown.type === "value") {
+    return thrown.value;
+  }
+  return new SandboxGuestError(
+    thrown.name,
+    thrown.message,
+    thrown.stack && mapStack(thrown.stack),
+    {
+      ...(thrown.cause && { cause: reviveThrown(thrown.cause, mapStack) }),
+      errors: thrown.errors?.map((error) => reviveThrown(error, mapStack)),
+    },
+  );
+}
+
+/** Creates the error to reject with when guest code throws. */
+function createGuestError(
+  thrown: Thrown,
+  mapStack: (stack: string) => string = (stack) => stack,
+): SandboxGuestError {
+  if (thrown.type === "value") {
+    // Something other than an error was thrown
+    return new SandboxGuestError("Error", `Uncaught ${formatValue(thrown.value, 1)}`, undefined, {
+      cause: thrown.value,
+    });
+  }
+  return reviveThrown(thrown, mapStack) as SandboxGuestError;
 }
 
 /**
@@ -58,6 +171,322 @@ export type CreateSandboxOptions = {
    * An optional name for the sandbox to aid in debugging. Used as the iframe's and worker's name.
    */
   name?: string;
+
+  /**
+   * What to do with the worker when a call exceeds its timeout.
+   *
+   * - `"restart"`: terminate the worker and transparently start a fresh one
+   *   with `globals` re-applied. Any state from previous runs is lost.
+   * - `"dispose"`: terminate the worker and dispose the sandbox.
+   * - `"none"`: leave the worker running. State is kept, but runaway code keeps
+   *   running and may block subsequent calls.
+   *
+   * Defaults to `"restart"`.
+   */
+  timeoutBehavior?: "restart" | "dispose" | "none";
+
+  /**
+   * Capture console output from inside the sandbox.
+   *
+   * When enabled, the worker's `console` is replaced with one that implements
+   * every standard method (`log`, `warn`, `error`, `table`, `group`, `time`,
+   * etc.) and forwards each call to the host as a {@link ConsoleEntry}. Entries
+   * are collected into the {@link RunResult} of the run that produced them.
+   *
+   * Pass a function to also receive entries as they happen, including ones
+   * logged outside of any run (for example from a timer). Errors it throws are
+   * reported as uncaught errors, without affecting the sandbox.
+   *
+   * @example
+   * ```typescript
+   * const sandbox = await createSandbox({
+   *   console: (entry) => console[entry.level]("[sandbox]", ...entry.args),
+   * })
+   * ```
+   */
+  console?: boolean | ((entry: ConsoleEntry) => void);
+
+  /**
+   * A snapshot previously taken with {@link Sandbox.snapshot} to rehydrate the
+   * sandbox's state from. Globals provided by {@link globals} take precedence
+   * over values of the same name in the snapshot.
+   */
+  restore?: SandboxSnapshot;
+
+  /**
+   * Modules that sandboxed code can `import`, as a map of module names to
+   * source code, or a function that returns the source code of a module by
+   * name (or `undefined` if there's no such module).
+   *
+   * Bare specifiers like `"csv"` are looked up by name as they are. Relative
+   * specifiers like `"./utils.js"` are resolved like URL paths against the name
+   * of the importing module, so `"./format.js"` imported from
+   * `"dates/index.js"` is looked up as `"dates/format.js"`. In code passed to
+   * {@link Sandbox.run}, they're resolved against the root.
+   *
+   * Modules are linked on the host and loaded from `data:` URLs, so the CSP is
+   * left untouched and nothing is fetched from the network. Only static
+   * imports and `import()` of a string literal can be resolved. Each module is
+   * loaded at most once per sandbox and evaluated at most once per worker.
+   *
+   * @example
+   * ```typescript
+   * const sandbox = await createSandbox({
+   *   modules: {
+   *     "math-utils": "export const clamp = (x, min, max) => Math.min(Math.max(x, min), max)",
+   *   },
+   * })
+   *
+   * await sandbox.run('import { clamp } from "math-utils"; console.log(clamp(12, 0, 10))')
+   * ```
+   */
+  modules?: Record<string, string> | ModuleResolver;
+
+  /**
+   * Transforms code before it's passed to the worker by {@link Sandbox.run}
+   * and {@link Sandbox.evaluate}, for example to strip TypeScript types.
+   *
+   * Runs on the host, so the transform can use any compiler bundled with your
+   * app, without network access or changes to the CSP. For
+   * {@link Sandbox.evaluate} the transformed code must still be a single
+   * expression; a trailing semicolon is ignored.
+   *
+   * Return a {@link TransformResult} with a source map to have locations in
+   * error stacks point into the original code. Transforms that preserve
+   * locations, like ones that replace types with whitespace, don't need one.
+   *
+   * @example Using [sucrase](https://github.com/alangpierce/sucrase):
+   * ```typescript
+   * import { transform } from "sucrase"
+   *
+   * const sandbox = await createSandbox({
+   *   transform: (code) => {
+   *     const result = transform(code, {
+   *       transforms: ["typescript"],
+   *       filePath: "run.ts",
+   *       sourceMapOptions: { compiledFilename: "run.js" },
+   *     })
+   *     return { code: result.code, map: result.sourceMap }
+   *   },
+   * })
+   *
+   * await sandbox.run("const total: number = 1 + 2")
+   * ```
+   */
+  transform?: (code: string) => string | TransformResult | Promise<string | TransformResult>;
+
+  /**
+   * Called before every call from inside the sandbox to a host function,
+   * including getters and functions returned from other host functions. Use it
+   * to enforce a policy, log calls, or ask the user for confirmation.
+   *
+   * Return `false` to deny the call, which rejects it inside the sandbox with
+   * an error, or throw to reject it with your own error. Return `{ args }` to
+   * call the function with different arguments, which are checked against its
+   * schema like the original ones. Anything else allows the call as it is.
+   * The hook may be async; time spent waiting for it counts towards the
+   * {@link ExecutionOptions.timeout} of the run that made the call.
+   *
+   * @example
+   * ```typescript
+   * const sandbox = await createSandbox({
+   *   globals: { files },
+   *   onHostCall: ({ path, args }) =>
+   *     path !== "files.delete" || confirm(`Allow ${path}(${JSON.stringify(args[0])})?`),
+   * })
+   * ```
+   */
+  onHostCall?: (call: HostCall) => HostCallDecision | Promise<HostCallDecision>;
+
+  /**
+   * Receives an {@link AuditEvent} for everything the sandbox does: code
+   * submitted to it, calls to host functions with their arguments and results,
+   * requests made with `fetch()`, console output, timeouts and disposal. Use
+   * {@link toJsonLine} to write the events to a log.
+   *
+   * Enables capturing console output, as with {@link console}. Errors thrown
+   * by the callback are reported as uncaught errors, without affecting the
+   * sandbox.
+   *
+   * @example
+   * ```typescript
+   * const sandbox = await createSandbox({
+   *   audit: (event) => auditLog.write(toJsonLine(event)),
+   * })
+   * ```
+   */
+  audit?: (event: AuditEvent) => void;
+
+  /**
+   * Let sandboxed code use `fetch()`, with requests sent by the host rather
+   * than the sandbox itself. Each request goes through
+   * {@link FetchOptions.onRequest}, which can deny it, rewrite it, or add
+   * secrets like API tokens that the sandbox never sees. The CSP keeps
+   * blocking direct network access, so unlike
+   * {@link contentSecurityPolicy.connectSrc} this can restrict methods, paths
+   * and headers, and cap the size of responses.
+   *
+   * @example
+   * ```typescript
+   * const sandbox = await createSandbox({
+   *   fetch: {
+   *     onRequest: (request) => {
+   *       const url = new URL(request.url)
+   *       if (url.origin !== "https://api.github.com" || request.method !== "GET") {
+   *         return false
+   *       }
+   *       const headers = new Headers(request.headers)
+   *       headers.set("Authorization", `Bearer ${token}`)
+   *       return new Request(request, { headers })
+   *     },
+   *   },
+   * })
+   * ```
+   */
+  fetch?: FetchOptions;
+
+  /**
+   * Give sandboxed code an in-memory filesystem as the global `fs`, with an
+   * async API like Node's `fs/promises`, for example to read inputs and write
+   * outputs as files. Files are stored on the host, where they can be seeded
+   * and collected with {@link Sandbox.fs}.
+   *
+   * Pass an object to create initial files or change the size quotas.
+   *
+   * @example
+   * ```typescript
+   * const sandbox = await createSandbox({
+   *   fs: { files: { "/data.csv": csv } },
+   * })
+   *
+   * await sandbox.run(`
+   *   const rows = (await fs.readFile("/data.csv", "utf8")).split("\\n")
+   *   await fs.writeFile("/out/count.json", JSON.stringify({ count: rows.length }))
+   * `)
+   * const result = sandbox.fs.readFile("/out/count.json", "utf8")
+   * ```
+   */
+  fs?: boolean | FileSystemOptions;
+
+  /**
+   * Which of the runtime's own APIs sandboxed code can use, as the name of a
+   * {@link GlobalsPreset} or a policy that extends one. Removed APIs are
+   * `undefined`, including on the prototype chain of the global scope.
+   *
+   * The globals and features given to the sandbox, like `console` and
+   * `fetch`, are always available. So are the functions the sandbox needs to
+   * talk to the host, `postMessage`, `addEventListener`, `removeEventListener`
+   * and `dispatchEvent`, which can't be blocked.
+   *
+   * Defaults to `"default"`.
+   *
+   * @example
+   * ```typescript
+   * // Only ECMAScript built-ins, plus timers
+   * const sandbox = await createSandbox({
+   *   globalsPolicy: { preset: "ecmascript", allow: ["setTimeout", "clearTimeout"] },
+   * })
+   * ```
+   */
+  globalsPolicy?: GlobalsPreset | GlobalsPolicy;
+
+  /**
+   * Make runs reproducible, so that the same code produces the same output.
+   * `Math.random()`, `crypto.getRandomValues()` and `crypto.randomUUID()` use
+   * a seeded generator, and `Date`, `performance.now()` and event timestamps
+   * use a clock that only moves when virtual timers advance it. The
+   * performance timeline, like `performance.mark()` and `PerformanceObserver`,
+   * is removed, since its entries carry real timestamps.
+   *
+   * The state starts over when the worker restarts after a timeout.
+   *
+   * @example
+   * ```typescript
+   * const sandbox = await createSandbox({
+   *   deterministic: { seed: 42, now: Date.UTC(2025, 0, 1), virtualTimers: true },
+   * })
+   *
+   * // Resolves immediately, with the clock an hour later
+   * await sandbox.run("await new Promise((resolve) => setTimeout(resolve, 3_600_000))")
+   * ```
+   */
+  deterministic?: boolean | DeterministicOptions;
+
+  /**
+   * Limit how precisely sandboxed code can measure time, to defend against
+   * Spectre-style and cache-timing attacks and CPU fingerprinting.
+   * `performance.now()`, `Date` and event timestamps are rounded to the
+   * {@link TimingOptions.resolution}, with jitter, and so are timer delays.
+   * `SharedArrayBuffer` and `Atomics.waitAsync()` are removed where present,
+   * since shared memory can be used to build a more precise clock, and so is
+   * the performance timeline, like `performance.mark()` and
+   * `PerformanceObserver`, whose entries carry timestamps of their own.
+   *
+   * @example
+   * ```typescript
+   * const sandbox = await createSandbox({ hardenTiming: { resolution: 5 } })
+   * ```
+   */
+  hardenTiming?: boolean | TimingOptions;
+
+  /**
+   * Create the sandbox's iframe through a page that called
+   * {@link serveSandboxes}, for code without a DOM, like a Web Worker or an
+   * extension's service worker. Sandboxed code runs in the page, and host
+   * functions run here.
+   *
+   * @example From a Web Worker whose page serves it:
+   * ```typescript
+   * const sandbox = await createSandbox({ connector: self })
+   * ```
+   */
+  connector?: SandboxConnector;
+};
+
+/**
+ * A call from inside the sandbox to a host function, passed to
+ * {@link CreateSandboxOptions.onHostCall}.
+ */
+export type HostCall = {
+  /**
+   * The dotted path of the function within the globals, like `"math.add"`.
+   * Functions returned from host functions are named after the call that
+   * returned them, like `"github.getRepo().star"`, and functions passed to
+   * sandbox callbacks like `"callback[0]"`.
+   */
+  path: string;
+
+  /** The arguments passed from the sandbox. Functions are RPC proxies. */
+  args: unknown[];
+
+  /**
+   * The call to {@link Sandbox.run}, {@link Sandbox.exec} or
+   * {@link Sandbox.evaluate} in progress when the call was made, if any,
+   * matching {@link ConsoleEntry.runId}. When calls overlap, it's the most
+   * recently started one.
+   *
+   * Reported by the sandbox's worker, so sandboxed code can forge it. Use it to
+   * group calls for logging, not to decide what a call may do.
+   */
+  runId?: number;
+};
+
+/**
+ * The result of {@link CreateSandboxOptions.onHostCall}: `false` to deny the
+ * call, `{ args }` to replace its arguments, or anything else to allow it.
+ */
+// biome-ignore lint/suspicious/noConfusingVoidType: allows hooks that return nothing
+export type HostCallDecision = boolean | undefined | void | { args: unknown[] };
+
+/**
+ * The output of {@link CreateSandboxOptions.transform}.
+ */
+export type TransformResult = {
+  /** The transformed code. */
+  code: string;
+
+  /** A source map from the transformed code to the original, as an object or JSON. */
+  map?: SourceMap | string;
 };
 
 /**
@@ -66,11 +495,63 @@ export type CreateSandboxOptions = {
 export type ExecutionOptions = {
   /**
    * Maximum time in milliseconds to wait for the code to finish. If the
-   * timeout elapses, the returned promise rejects with a timeout error.
+   * timeout elapses, the returned promise rejects with a {@link SandboxTimeoutError}
+   * and the worker is handled according to
+   * {@link CreateSandboxOptions.timeoutBehavior}.
    *
    * Defaults to `3000` (3 seconds).
    */
   timeout?: number;
+
+  /**
+   * An optional signal to cancel the call. When aborted, the returned promise
+   * rejects with a {@link SandboxAbortedError} whose `cause` is the signal's
+   * reason, and the signals of host functions called by this run are aborted
+   * (see {@link getAbortSignal}).
+   *
+   * If the run is waiting on host functions, they stop being waited for, and
+   * if that ends the run shortly after, the worker is left running. Otherwise
+   * it's handled according to {@link CreateSandboxOptions.timeoutBehavior}, as
+   * on a timeout.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * The result of {@link Sandbox.run}.
+ */
+export type RunResult = {
+  /**
+   * Console output logged during the run. Always empty unless
+   * {@link CreateSandboxOptions.console} or {@link CreateSandboxOptions.audit}
+   * is enabled.
+   */
+  logs: ConsoleEntry[];
+};
+
+/**
+ * The result of {@link Sandbox.exec}.
+ */
+export type ExecResult = RunResult & {
+  /**
+   * The value of the code's last statement, if it's an expression statement,
+   * or `undefined` otherwise. Promises are awaited.
+   */
+  value: unknown;
+};
+
+/**
+ * The state of a sandbox captured by {@link Sandbox.snapshot}.
+ *
+ * Snapshots can be structured cloned, so they can be stored in IndexedDB or
+ * sent to another window.
+ */
+export type SandboxSnapshot = {
+  /** Values of globals defined by sandboxed code, keyed by name. */
+  globals: Record<string, unknown>;
+
+  /** Globals that could not be captured, such as functions and closures. */
+  skipped: Array<{ name: string; reason: string }>;
 };
 
 /**
@@ -87,8 +568,30 @@ export type Sandbox = {
    *
    * @param code - JavaScript source code to run.
    * @param options - Execution options.
+   * @returns Console output captured during the run.
    */
-  run(code: string, options?: ExecutionOptions): Promise<void>;
+  run(code: string, options?: ExecutionOptions): Promise<RunResult>;
+
+  /**
+   * Run JavaScript code inside the sandbox like {@link Sandbox.run}, and return
+   * the value of its last expression statement, like a REPL or a notebook
+   * cell. Any code that {@link Sandbox.run} accepts works here, including
+   * imports and top-level `await`.
+   *
+   * @param code - JavaScript source code to run.
+   * @param options - Execution options.
+   * @returns The value of the last expression, along with console output
+   * captured during the run.
+   *
+   * @example
+   * ```typescript
+   * const { value } = await sandbox.exec(`
+   *   const res = await fetchWeather("Berlin")
+   *   res.temperature
+   * `)
+   * ```
+   */
+  exec(code: string, options?: ExecutionOptions): Promise<ExecResult>;
 
   /**
    * Evaluate a single JavaScript expression inside the sandbox and return it.
@@ -99,6 +602,65 @@ export type Sandbox = {
    */
   evaluate(expr: string, options?: ExecutionOptions): Promise<unknown>;
 
+  /**
+   * Capture the globals defined by sandboxed code, so the sandbox's state can
+   * be restored later with {@link CreateSandboxOptions.restore}.
+   *
+   * Only properties of `globalThis` are captured, not variables declared with
+   * `let` or `const` at the top level of a run. Globals provided by the runtime
+   * or by {@link CreateSandboxOptions.globals} are skipped silently, while
+   * values that can't be structured cloned, like functions, are listed in
+   * {@link SandboxSnapshot.skipped}.
+   *
+   * @param options - Execution options.
+   */
+  snapshot(options?: ExecutionOptions): Promise<SandboxSnapshot>;
+
+  /**
+   * Add or replace globals inside the sandbox, following the same rules as
+   * {@link CreateSandboxOptions.globals}. Each top-level key replaces any
+   * existing global of the same name wholesale; other globals and state from
+   * previous runs are kept.
+   *
+   * Functions of a replaced global are revoked.
+   *
+   * @param globals - Variables and functions to expose.
+   */
+  setGlobals(globals: Record<string, unknown>): Promise<void>;
+
+  /**
+   * Remove a global from the sandbox, revoking any functions it contained.
+   *
+   * @param name - Name of a global previously passed to
+   * {@link CreateSandboxOptions.globals} or {@link Sandbox.setGlobals}.
+   */
+  deleteGlobal(name: string): Promise<void>;
+
+  /**
+   * Revoke a function previously exposed to the sandbox, either as a global or
+   * as part of a value returned from a host function. Its name stays defined,
+   * but calls from inside the sandbox reject with an error. The function stays
+   * revoked if it's exposed again, for example by a host function returning
+   * it.
+   *
+   * @param fn - The original host function.
+   */
+  revoke(fn: (...args: never[]) => unknown): void;
+
+  /**
+   * The sandbox's filesystem, to seed files before a run and collect the ones
+   * it wrote afterwards. Methods run synchronously on the host. Only visible
+   * inside the sandbox if {@link CreateSandboxOptions.fs} is enabled.
+   */
+  readonly fs: VirtualFileSystem;
+
+  /**
+   * Whether the sandbox has been disposed, either by calling {@link dispose}
+   * or by itself, like after a timeout with
+   * {@link CreateSandboxOptions.timeoutBehavior} set to `"dispose"`.
+   */
+  readonly disposed: boolean;
+
   /**
    * Destroy the sandbox, terminating its worker and removing the backing
    * iframe from the DOM.
@@ -108,11 +670,35 @@ export type Sandbox = {
   [Symbol.dispose](): void;
 };
 
+/**
+ * Where the workers of a sandbox run. Browsers run them in a sandboxed iframe,
+ * see {@link createIframeBackend}, and Node.js in worker threads.
+ */
+export type SandboxBackend = {
+  /**
+   * Terminates the current worker, if any, and starts a fresh one that talks
+   * to the host over `port`.
+   */
+  spawn(port: MessagePort): void;
+
+  dispose(): void;
+};
+
+/**
+ * Creates the backend of a sandbox. The backend calls `onCrash` if its worker
+ * stops unexpectedly, for example after running out of memory.
+ */
+export type CreateBackend = (
+  name: string,
+  onCrash: (err: Error) => void,
+) => Promise<SandboxBackend>;
+
 /**
  * Create a new sandboxed execution environment.
  *
  * Sets up a hidden iframe with a strict Content-Security-Policy and spawns a
- * Web Worker inside it. Functions provided in `opts.globals` are extracted and
+ * Web Worker inside it, or has the page behind
+ * {@link CreateSandboxOptions.connector} do so. Functions provided in `opts.globals` are extracted and
  * replaced with RPC proxies so they execute in the host context when called
  * from inside the sandbox.
  *
@@ -130,31 +716,101 @@ export type Sandbox = {
  * await sandbox.run('console.log(await add(1, 2))')
  * ```
  */
-export async function createSandbox(opts?: CreateSandboxOptions): Promise<Sandbox> {
+export function createSandbox(opts?: CreateSandboxOptions): Promise<Sandbox> {
+  const createBackend = opts?.connector
+    ? createConnectorBackend(opts.connector, opts.contentSecurityPolicy)
+    : createIframeBackend(opts?.contentSecurityPolicy);
+  return createSandboxWith(opts, createBackend);
+}
+
+/** Creates a sandbox whose workers run on the given backend. */
+export async function createSandboxWith(
+  opts: CreateSandboxOptions | undefined,
+  createBackend: CreateBackend,
+): Promise<Sandbox> {
+  const methodsById = new Map<
+    number,
+    // biome-ignore lint/complexity/noBannedTypes: false positive
+    { fn: Function; thisArg: unknown; path: string }
+  >();
+  let nextMethodId = 0;
+
+  // Paths of methods taken away with revoke() or deleteGlobal(), to give a
+  // clearer error if the sandbox kept a reference, and to audit its calls
+  const revokedMethodPaths = new Map<number, string>();
+
+  // Functions taken away with revoke(), which stay revoked if they're exposed
+  // again, for example by a host function returning them
+  // biome-ignore lint/complexity/noBannedTypes: false positive
+  const revokedFunctions = new WeakSet<Function>();
+
   // biome-ignore lint/complexity/noBannedTypes: false positive
-  const methodsById: Array<Function> = [];
+  function registerMethod(fn: Function, thisArg: unknown, path: string): number {
+    const methodId = nextMethodId++;
+    if (revokedFunctions.has(fn)) {
+      revokedMethodPaths.set(methodId, path);
+    } else {
+      methodsById.set(methodId, { fn, thisArg, path });
+    }
+    return methodId;
+  }
 
-  function extractMethods(source: Record<string, unknown>): {
+  function emit(event: AuditEvent) {
+    // Called in the middle of timeouts, disposal and host calls, which must
+    // carry on even if the callback throws
+    callListener(opts?.audit, event);
+  }
+  let nextCallId = 0;
+  let nextFetchId = 0;
+
+  function revokeMethod(methodId: number) {
+    const method = methodsById.get(methodId);
+    if (method) {
+      methodsById.delete(methodId);
+      revokedMethodPaths.set(methodId, method.path);
+    }
+  }
+
+  function extractMethods(
+    source: object,
+    methodIds: number[],
+    thisArg: object = source,
+    path = "",
+  ): {
     constants: Record<string, unknown>;
     methods: Record<string, unknown>;
+    getters: Record<string, unknown>;
   } {
     const constants: Record<string, unknown> = {};
     const methods: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(source)) {
+    const getters: Record<string, unknown> = {};
+
+    const exposeOpts = getExposeOptions(source);
+    const members = exposeOpts
+      ? getInstanceMembers(source, exposeOpts)
+      : { values: Object.entries(source), getters: [] };
+
+    for (const [key, value] of members.values) {
+      const keyPath = path ? `${path}.${key}` : key;
       switch (typeof value) {
-        case "function":
-          methods[key] = methodsById.length;
-          methodsById.push(value.bind(source));
+        case "function": {
+          const methodId = registerMethod(value, thisArg, keyPath);
+          methods[key] = methodId;
+          methodIds.push(methodId);
           break;
+        }
         case "object": {
           if (value === null) {
             constants[key] = null;
-          } else if (isPlainObject(value)) {
-            const child = extractMethods(value as Record<string, unknown>);
+          } else if (isPlainObject(value) || getExposeOptions(value)) {
+            const child = extractMethods(value, methodIds, value, keyPath);
             constants[key] = child.constants;
             if (Object.keys(child.methods).length > 0) {
               methods[key] = child.methods;
             }
+            if (Object.keys(child.getters).length > 0) {
+              getters[key] = child.getters;
+            }
           } else {
             // Arrays, Date, Map, Set, RegExp, TypedArrays, etc. are passed
             // through; structured clone preserves their type across the port.
@@ -167,94 +823,669 @@ export async function createSandbox(opts?: CreateSandboxOptions): Promise<Sandbo
           break;
       }
     }
-    return { constants, methods };
-  }
 
-  const { constants, methods } = extractMethods(opts?.globals ?? {});
+    for (const [key, get] of members.getters) {
+      const methodId = registerMethod(get, undefined, path ? `${path}.${key}` : key);
+      getters[key] = methodId;
+      methodIds.push(methodId);
+    }
 
-  const channel = new MessageChannel();
-  const name = opts?.name ?? "slopjail";
-  const cspOpts = opts?.contentSecurityPolicy;
+    return { constants, methods, getters };
+  }
+
+  // The current globals, kept so they can be re-applied to a restarted worker
+  const constants: Record<string, unknown> = {};
+  const methods: Record<string, unknown> = {};
+  const getters: Record<string, unknown> = {};
+  const methodIdsByGlobal = new Map<string, number[]>();
 
-  const iframe = await new Promise<HTMLIFrameElement>((resolve, reject) => {
-    const iframe = document.createElement("iframe");
-    iframe.sandbox = "allow-scripts";
-    iframe.name = name;
+  function deleteGlobalState(name: string) {
+    for (const methodId of methodIdsByGlobal.get(name) ?? []) {
+      revokeMethod(methodId);
+    }
+    methodIdsByGlobal.delete(name);
+    delete constants[name];
+    delete methods[name];
+    delete getters[name];
+  }
 
-    const csp: ContentSecurityPolicy = {
-      "default-src": ["'none'"],
-      "script-src": ["data:", "'unsafe-inline'", "'unsafe-eval'", ...(cspOpts?.scriptSrc ?? [])],
-      "connect-src": cspOpts?.connectSrc ?? [],
+  /**
+   * Adds or replaces top-level globals in the host's state, returning just the
+   * changes to send to the worker.
+   */
+  function updateGlobalState(globals: Record<string, unknown>) {
+    const update = {
+      constants: {} as Record<string, unknown>,
+      methods: {} as Record<string, unknown>,
+      getters: {} as Record<string, unknown>,
     };
+    for (const name of Object.keys(globals)) {
+      deleteGlobalState(name);
 
-    // We don't need to worry about escaping "</script>" in iframeSource. Any occurences of this
-    // string will be caught in tests.
-    iframe.srcdoc = `<head><meta http-equiv="Content-Security-Policy" content="${renderContentSecurityPolicy(csp)}"></head><body><script>${iframeSource}</script></body>`;
+      // Extract one global at a time to track which methods belong to it,
+      // while still binding top-level functions to the globals object
+      const methodIds: number[] = [];
+      const extracted = extractMethods({ [name]: globals[name] }, methodIds, globals);
+      methodIdsByGlobal.set(name, methodIds);
 
-    iframe.addEventListener("load", () => {
-      // biome-ignore lint/style/noNonNullAssertion: fail fast if contentWindow is ever null here
-      iframe.contentWindow!.postMessage({ type: "slopjail:init", name, workerSource }, "*", [
-        channel.port1,
-      ]);
-      resolve(iframe);
-    });
-    iframe.addEventListener("error", reject);
+      for (const tree of ["constants", "methods", "getters"] as const) {
+        if (name in extracted[tree]) {
+          update[tree][name] = extracted[tree][name];
+        }
+      }
+    }
+    Object.assign(constants, update.constants);
+    Object.assign(methods, update.methods);
+    Object.assign(getters, update.getters);
+    return update;
+  }
 
-    iframe.style.display = "none";
-    document.body.appendChild(iframe);
+  const fileSystem = createFileSystem(typeof opts?.fs === "object" ? opts.fs : undefined);
+  updateGlobalState(opts?.fs ? { fs: fileSystem, ...opts.globals } : (opts?.globals ?? {}));
+
+  const name = opts?.name ?? "slopjail";
+  const timeoutBehavior = opts?.timeoutBehavior ?? "restart";
+  const link = opts?.modules ? createModuleLinker(opts.modules) : async (code: string) => code;
+  const transform = opts?.transform;
+  const handleFetch = opts?.fetch && createFetchHandler(opts.fetch);
+  // Resolved before creating the backend, since invalid policies throw
+  const globalsPolicy = resolveGlobalsPolicy(opts?.globalsPolicy);
+
+  // Runs in progress, so that interrupting one aborts only the host functions
+  // it called, and aborting one that's waiting on host functions can leave the
+  // worker running
+  const runStates = new Map<number, { abortController: AbortController; hostCalls: number }>();
+
+  const backend = await createBackend(name, (err) => {
+    if (!disposed) {
+      restart(err);
+    }
   });
 
-  const port = channel.port2;
-  port.start();
+  /**
+   * Asks the backend to spawn a fresh worker, terminating the previous one,
+   * and connects to it over a new MessageChannel.
+   */
+  function connect() {
+    const channel = new MessageChannel();
+    backend.spawn(channel.port1);
+
+    const port = channel.port2;
+    port.start();
+
+    // Aborted when this connection closes, so host functions still running on
+    // behalf of its worker can stop early.
+    const abortController = new AbortController();
+
+    let closeReject: (err: Error) => void;
+    const closed = new Promise<never>((_, reject) => {
+      closeReject = reject;
+    });
+    closed.catch(() => {}); // prevent unhandled rejection
+
+    const guestClient = createMessagePortClient<GuestService>(port);
 
-  createMessagePortServer<HostService>(port, {
-    onMethod({ methodId, params }) {
-      if (typeof methodId === "number") {
-        return methodsById[methodId](...params);
+    // Tell the worker to forget about callbacks once the host has dropped them
+    const callbackRegistry = new FinalizationRegistry<number>((callbackId) => {
+      if (!abortController.signal.aborted) {
+        guestClient.call("releaseCallback", { callbackId }).catch(() => {});
       }
-    },
-  });
+    });
 
-  let disposeReject: (err: Error) => void;
-  const disposePromise = new Promise<never>((_, reject) => {
-    disposeReject = reject;
-  });
-  disposePromise.catch(() => {}); // prevent unhandled rejection
+    /** Creates a host-side proxy for a function that was passed in from the sandbox. */
+    function reviveCallback(callbackId: number) {
+      const callback = async (...params: unknown[]) => {
+        const result = await Promise.race([
+          guestClient.call("invokeCallback", {
+            callbackId,
+            params: encodeFunctions(params, (fn, parent, path) =>
+              registerHandle(fn, parent, `callback${path}`),
+            ),
+          }),
+          closed,
+        ]);
+        if (!result.ok) {
+          throw createGuestError(result.thrown);
+        }
+        return decodeFunctions(result.value, reviveCallback);
+      };
+      callbackRegistry.register(callback, callbackId);
+      return callback;
+    }
+
+    // Methods of values returned to the sandbox ("handles"), which it can
+    // release once it no longer needs them
+    const handleIds = new Set<number>();
+
+    // biome-ignore lint/complexity/noBannedTypes: false positive
+    function registerHandle(fn: Function, parent: object | undefined, path: string): number {
+      const methodId = registerMethod(fn, parent, path);
+      handleIds.add(methodId);
+      return methodId;
+    }
+
+    createMessagePortServer<HostService>(port, {
+      async onMethod({ methodId, runId, params }) {
+        const getMethod = () => {
+          const method = methodsById.get(methodId);
+          if (!method) {
+            throw new SandboxRevokedError(
+              revokedMethodPaths.has(methodId)
+                ? "Function has been revoked"
+                : "Method has been released",
+            );
+          }
+          return method;
+        };
+
+        // Calls that fail before reaching the function, because it's gone or
+        // its arguments can't be decoded, are audited too
+        let method = methodsById.get(methodId);
+        const path = method?.path ?? revokedMethodPaths.get(methodId) ?? "";
+        const callId = nextCallId++;
+        const start = Date.now();
+        const end = (outcome: { ok: true; value: unknown } | { ok: false; error: unknown }) => {
+          const timestamp = Date.now();
+          emit({
+            type: "hostCallEnd",
+            timestamp,
+            callId,
+            runId,
+            path,
+            duration: timestamp - start,
+            ...outcome,
+          });
+        };
+
+        let args: unknown[];
+        try {
+          args = decodeFunctions(params, reviveCallback) as unknown[];
+        } catch (err) {
+          emit({ type: "hostCall", timestamp: start, callId, runId, path, args: [] });
+          end({ ok: false, error: err });
+          throw err;
+        }
+        emit({ type: "hostCall", timestamp: start, callId, runId, path, args });
+
+        const runState = runId === undefined ? undefined : runStates.get(runId);
+        if (runState) {
+          runState.hostCalls++;
+        }
+
+        let schema: FunctionSchema | undefined;
+        let value: unknown;
+        const checkArguments = () => {
+          const argsError = schema && validateArguments(args, schema);
+          if (argsError) {
+            throw new TypeError(`Invalid arguments for ${path}: ${argsError}`);
+          }
+        };
+        try {
+          method = getMethod();
+          schema = getFunctionSchema(method.fn);
+          checkArguments();
+          if (opts?.onHostCall) {
+            const decision = await opts.onHostCall({ path, args, runId });
+            if (decision === false) {
+              throw new Error(`Call to ${path} was denied`);
+            }
+            if (decision && typeof decision === "object") {
+              args = decision.args;
+              // Rewritten arguments must still match the function's schema
+              checkArguments();
+            }
+            // The function may have been revoked while the hook was deciding
+            method = getMethod();
+          }
+
+          let result: unknown;
+          currentAbortSignal = runState
+            ? AbortSignal.any([abortController.signal, runState.abortController.signal])
+            : abortController.signal;
+          try {
+            result = method.fn.apply(method.thisArg, args);
+          } finally {
+            currentAbortSignal = undefined;
+          }
+          // The run stops waiting once it's aborted, even for functions that
+          // ignore their signal
+          value = await (runState
+            ? Promise.race([result, whenAborted(runState.abortController.signal)])
+            : result);
+          const returnError = schema?.returns && validate(value, schema.returns, "return value");
+          if (returnError) {
+            throw new TypeError(`Invalid result from ${path}: ${returnError}`);
+          }
+        } catch (err) {
+          end({ ok: false, error: err });
+          throw err;
+        } finally {
+          if (runState) {
+            runState.hostCalls--;
+          }
+        }
+        end({ ok: true, value });
+        return encodeFunctions(value, (fn, parent, subpath) =>
+          registerHandle(fn, parent, `${path}()${subpath}`),
+        );
+      },
+
+      releaseMethod({ methodId }) {
+        if (handleIds.delete(methodId)) {
+          methodsById.delete(methodId);
+        }
+      },
+
+      async onFetch(request) {
+        if (!handleFetch) {
+          throw new Error("fetch() is not enabled");
+        }
+        const fetchId = nextFetchId++;
+        const { method, url } = request;
+        const start = Date.now();
+        emit({ type: "fetch", timestamp: start, fetchId, method, url });
+        const end = (
+          outcome: { ok: true; status: number; size: number } | { ok: false; error: unknown },
+        ) => {
+          const timestamp = Date.now();
+          emit({
+            type: "fetchEnd",
+            timestamp,
+            fetchId,
+            method,
+            url,
+            duration: timestamp - start,
+            ...outcome,
+          });
+        };
+
+        let response: SerializedResponse;
+        try {
+          response = await handleFetch(request, abortController.signal);
+        } catch (err) {
+          end({ ok: false, error: err });
+          throw err;
+        }
+        end({ ok: true, status: response.status, size: response.body?.byteLength ?? 0 });
+        return response;
+      },
+
+      onConsole(entry) {
+        emit({ type: "console", timestamp: entry.timestamp, entry });
+        if (entry.runId !== undefined) {
+          logsByRunId.get(entry.runId)?.push(entry);
+        }
+        if (typeof opts?.console === "function") {
+          callListener(opts.console, entry);
+        }
+      },
+    });
+
+    return {
+      guestClient,
+
+      /** Rejects when this connection is closed, failing any pending calls. */
+      closed,
+
+      close(reason: Error) {
+        closeReject(reason);
+        abortController.abort(reason);
+        port.close();
+        for (const methodId of handleIds) {
+          methodsById.delete(methodId);
+        }
+      },
+    };
+  }
+
+  const workerConfig: WorkerConfig = {
+    console: !!opts?.console || !!opts?.audit,
+    fetch: !!opts?.fetch,
+    globalsPolicy,
+  };
+  if (opts?.deterministic) {
+    const {
+      seed = 0,
+      now = 0,
+      virtualTimers = false,
+    } = opts.deterministic === true ? {} : opts.deterministic;
+    workerConfig.deterministic = { seed, now, virtualTimers };
+  }
+  if (opts?.hardenTiming) {
+    const { resolution = 1, jitter = true } = opts.hardenTiming === true ? {} : opts.hardenTiming;
+    workerConfig.timing = { resolution, jitter };
+  }
+
+  /** Prepares a freshly spawned worker to run code. */
+  function initWorker(guestClient: ReturnType<typeof connect>["guestClient"]) {
+    return Promise.all([
+      guestClient.call("configure", workerConfig),
+      guestClient.call("setGlobals", { constants, methods, getters }),
+    ]);
+  }
+
+  // Console entries for runs in progress
+  const logsByRunId = new Map<number, ConsoleEntry[]>();
+  let nextRunId = 0;
+
+  let connection = connect();
+  let disposed = false;
 
   const dispose = () => {
-    disposeReject(new Error("Sandbox has been disposed"));
-    port.close();
-    iframe.remove();
+    if (!disposed) {
+      emit({ type: "dispose", timestamp: Date.now() });
+    }
+    disposed = true;
+    connection.close(new SandboxDisposedError());
+    backend.dispose();
   };
 
-  const guestClient = createMessagePortClient<GuestService>(port);
+  /** Replaces the worker with a fresh one, failing any calls still pending on the old one. */
+  function restart(reason: Error) {
+    connection.close(reason);
+    connection = connect();
+    // Messages on the new port are handled in order, so calls made after this
+    // are guaranteed to see the configuration and globals.
+    initWorker(connection.guestClient).catch(() => {});
+  }
+
   try {
-    await guestClient.call("setGlobals", { constants, methods });
+    // Fails if the worker crashes while starting
+    await Promise.race([initWorker(connection.guestClient), connection.closed]);
+    if (opts?.restore) {
+      await connection.guestClient.call("restore", { globals: opts.restore.globals });
+    }
   } catch (err) {
     dispose();
     throw err;
   }
 
+  /**
+   * Prepares code passed to {@link Sandbox.run} or {@link Sandbox.evaluate},
+   * applying {@link CreateSandboxOptions.transform}. Returns the code to send
+   * to the worker, the name to give it in stack traces, and functions to map
+   * locations back to the submitted code.
+   */
+  async function prepareCode(code: string, runId: number, kind: "module" | "expression") {
+    let map: SourceMap | string | undefined;
+    if (transform) {
+      const result = await transform(code);
+      ({ code, map } = typeof result === "string" ? { code: result, map: undefined } : result);
+      if (kind === "expression") {
+        code = code.trim().replace(/;+$/, "");
+      }
+    }
+    const sourceUrl = `run-${runId}`;
+
+    // The worker evaluates `"use strict";return(${expr}` inside a function,
+    // whose body starts on the third line
+    const mapStackLocation = createLocationMapper(
+      map,
+      kind === "expression" ? { line: 2, column: 20 } : undefined,
+    );
+    return {
+      code,
+      sourceUrl,
+      mapLocation: createLocationMapper(map),
+      mapStack: (stack: string) => mapStackLocations(stack, sourceUrl, mapStackLocation),
+    };
+  }
+
+  /**
+   * Creates the error to reject with when code passed to {@link Sandbox.run}
+   * or {@link Sandbox.evaluate} throws, locating syntax errors in the code.
+   */
+  async function createRunError(
+    guestClient: ReturnType<typeof connect>["guestClient"],
+    thrown: Thrown,
+    source: Awaited<ReturnType<typeof prepareCode>>,
+    kind: "module" | "expression",
+  ) {
+    // Syntax errors can also be thrown at runtime, by JSON.parse() for example,
+    // so check whether the code actually fails to parse
+    if (thrown.type === "error" && thrown.name === "SyntaxError") {
+      const syntaxError = await guestClient.call("findSyntaxError", { code: source.code, kind });
+      if (syntaxError) {
+        const { message, line, column } = syntaxError;
+        const location =
+          line !== undefined && column !== undefined
+            ? source.mapLocation({ line, column })
+            : undefined;
+        return new SandboxSyntaxError(message, location);
+      }
+    }
+    return createGuestError(thrown, source.mapStack);
+  }
+
+  /**
+   * Makes a call to the worker, subject to the timeout and signal in
+   * `execOpts`. Calls that run code pass `run` to have them audited.
+   */
   function callImpl<T>(
-    callPromise: Promise<T>,
+    call: (guestClient: ReturnType<typeof connect>["guestClient"]) => Promise<T>,
     execOpts: ExecutionOptions | undefined,
+    run?: { runId: number; method: "run" | "exec" | "evaluate"; code: string },
   ): Promise<T> {
+    if (disposed) {
+      return Promise.reject(new SandboxDisposedError());
+    }
+    const signal = execOpts?.signal;
+    if (signal?.aborted) {
+      // Nothing was running, so the worker is left alone
+      return Promise.reject(new SandboxAbortedError(false, signal.reason));
+    }
+    const callConnection = connection;
+
+    const start = Date.now();
+    if (run) {
+      emit({ type: "run", timestamp: start, ...run });
+    }
+    const end = (outcome: { ok: true; value: unknown } | { ok: false; error: unknown }) => {
+      if (run) {
+        const timestamp = Date.now();
+        emit({
+          type: "runEnd",
+          timestamp,
+          runId: run.runId,
+          duration: timestamp - start,
+          ...outcome,
+        });
+      }
+    };
+
+    const runState = run && { abortController: new AbortController(), hostCalls: 0 };
+    if (run && runState) {
+      runStates.set(run.runId, runState);
+    }
+
+    /** Stops the guest code according to the timeout behavior. */
+    const interrupt = (reason: string, cause: unknown) => {
+      runState?.abortController.abort(cause);
+      if (callConnection !== connection || disposed) {
+        return;
+      }
+      // The only way to stop guest code is to terminate its worker
+      if (timeoutBehavior === "restart") {
+        restart(new SandboxRestartedError(`Sandbox was restarted because another call ${reason}`));
+      } else if (timeoutBehavior === "dispose") {
+        dispose();
+      }
+    };
+
+    const callPromise = call(callConnection.guestClient);
+    const settled = callPromise.then(
+      () => {},
+      () => {},
+    );
+
     let timer: ReturnType<typeof setTimeout>;
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      timer = setTimeout(() => reject(new Error("Execution timed out")), execOpts?.timeout ?? 3000);
+    let graceTimer: ReturnType<typeof setTimeout> | undefined;
+    let aborting = false;
+    let onAbort: () => void;
+    const interruptPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const stateLost = timeoutBehavior !== "none";
+        emit({ type: "timeout", timestamp: Date.now(), runId: run?.runId, stateLost });
+        const err = new SandboxTimeoutError(stateLost);
+        reject(err);
+        interrupt("timed out", err);
+      }, execOpts?.timeout ?? 3000);
+
+      onAbort = () => {
+        // A run that's only waiting on host functions usually settles once
+        // they're aborted, so its worker can be left running. Code that keeps
+        // running gets interrupted after all.
+        if (runState && runState.hostCalls > 0) {
+          aborting = true;
+          runState.abortController.abort(signal?.reason);
+          graceTimer = setTimeout(() => {
+            reject(new SandboxAbortedError(timeoutBehavior !== "none", signal?.reason));
+            interrupt("was aborted", signal?.reason);
+          }, abortGracePeriod);
+          void settled.then(() => {
+            clearTimeout(graceTimer);
+            reject(new SandboxAbortedError(false, signal?.reason));
+          });
+          return;
+        }
+        reject(new SandboxAbortedError(timeoutBehavior !== "none", signal?.reason));
+        interrupt("was aborted", signal?.reason);
+      };
+      signal?.addEventListener("abort", onAbort);
     });
-    timeoutPromise.catch(() => {}); // prevent unhandled rejection
-    return Promise.race([callPromise, disposePromise, timeoutPromise]).finally(() =>
-      clearTimeout(timer),
+    interruptPromise.catch(() => {}); // prevent unhandled rejection
+
+    // Once aborted, the call rejects with a SandboxAbortedError however the
+    // run ends
+    const result = callPromise.then(
+      (value) => (aborting ? interruptPromise : value),
+      (err) => (aborting ? interruptPromise : Promise.reject(err)),
     );
+    return Promise.race([result, callConnection.closed, interruptPromise])
+      .then(
+        (value) => {
+          end({ ok: true, value });
+          return value;
+        },
+        (err) => {
+          end({ ok: false, error: err });
+          throw err;
+        },
+      )
+      .finally(() => {
+        clearTimeout(timer);
+        clearTimeout(graceTimer);
+        signal?.removeEventListener("abort", onAbort);
+        if (run) {
+          runStates.delete(run.runId);
+        }
+      });
+  }
+
+  /** Runs a module for run() or exec(), which also returns the value of its last expression. */
+  async function runImpl(
+    code: string,
+    execOpts: ExecutionOptions | undefined,
+    method: "run" | "exec",
+  ): Promise<ExecResult> {
+    const returnLast = method === "exec";
+    const runId = nextRunId++;
+    const logs: ConsoleEntry[] = [];
+    logsByRunId.set(runId, logs);
+    try {
+      const value = await callImpl(
+        async (guestClient) => {
+          const source = await prepareCode(code, runId, "module");
+          const resultName = returnLast ? "__slopjailResult" : undefined;
+          const result = await guestClient.call("run", {
+            code: await link(
+              resultName ? exportLastExpression(source.code, resultName) : source.code,
+            ),
+            runId,
+            sourceUrl: source.sourceUrl,
+            resultName,
+          });
+          if (!result.ok) {
+            throw await createRunError(guestClient, result.thrown, source, "module");
+          }
+          return result.value;
+        },
+        execOpts,
+        { runId, method, code },
+      );
+      return { value, logs };
+    } catch (err) {
+      if (
+        err instanceof SandboxGuestError ||
+        err instanceof SandboxTimeoutError ||
+        err instanceof SandboxAbortedError
+      ) {
+        err.logs = logs;
+      }
+      throw err;
+    } finally {
+      logsByRunId.delete(runId);
+    }
   }
 
   return {
-    run(code, execOpts) {
-      return callImpl(guestClient.call("run", { code }), execOpts);
+    async run(code, execOpts) {
+      const { logs } = await runImpl(code, execOpts, "run");
+      return { logs };
+    },
+    exec(code, execOpts) {
+      return runImpl(code, execOpts, "exec");
     },
     evaluate(expr, execOpts) {
-      return callImpl(guestClient.call("evaluate", { expr }), execOpts);
+      const runId = nextRunId++;
+      return callImpl(
+        async (guestClient) => {
+          const source = await prepareCode(expr, runId, "expression");
+          const result = await guestClient.call("evaluate", {
+            expr: await link(source.code),
+            runId,
+            sourceUrl: source.sourceUrl,
+          });
+          if (!result.ok) {
+            throw await createRunError(guestClient, result.thrown, source, "expression");
+          }
+          return result.value;
+        },
+        execOpts,
+        { runId, method: "evaluate", code: expr },
+      );
+    },
+    snapshot(execOpts) {
+      return callImpl((guestClient) => guestClient.call("snapshot", {}), execOpts);
+    },
+    async setGlobals(globals) {
+      if (disposed) {
+        throw new SandboxDisposedError();
+      }
+      const update = updateGlobalState(globals);
+      await Promise.race([connection.guestClient.call("setGlobals", update), connection.closed]);
+    },
+    async deleteGlobal(name) {
+      if (disposed) {
+        throw new SandboxDisposedError();
+      }
+      deleteGlobalState(name);
+      await Promise.race([
+        connection.guestClient.call("deleteGlobal", { name }),
+        connection.closed,
+      ]);
+    },
+    revoke(fn) {
+      revokedFunctions.add(fn);
+      for (const [methodId, method] of methodsById) {
+        if (method.fn === fn) {
+          revokeMethod(methodId);
+        }
+      }
+    },
+    fs: fileSystem,
+    get disposed() {
+      return disposed;
     },
     dispose,
     [Symbol.dispose]: dispose,
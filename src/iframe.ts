@@ -5,14 +5,33 @@ self.addEventListener("message", function onMessage(event) {
   if (event.data?.type === "slopjail:init") {
     self.removeEventListener("message", onMessage);
 
-    const worker = new Worker(
-      `data:text/javascript;charset=utf-8,${encodeURI(event.data.workerSource)}`,
-      { name: event.data.name, type: "module" },
-    );
+    const { name, workerSource } = event.data;
+    let worker: Worker | undefined;
+    let port: MessagePort | undefined;
 
-    // Connect the bridge to both sides
-    const port = event.ports[0];
-    port.onmessage = (event) => worker.postMessage(event.data);
-    worker.onmessage = (event) => port.postMessage(event.data);
+    // The host sends control messages over a dedicated port. Each spawn
+    // request terminates the current worker (if any) and starts a fresh one
+    // bridged to the newly transferred port, so stale messages from a killed
+    // worker can never reach the new one.
+    const controlPort: MessagePort = event.ports[0];
+    controlPort.onmessage = (event) => {
+      if (event.data?.type === "slopjail:spawn") {
+        worker?.terminate();
+        port?.close();
+
+        const newWorker = new Worker(
+          `data:text/javascript;charset=utf-8,${encodeURI(workerSource)}`,
+          { name, type: "module" },
+        );
+        const newPort: MessagePort = event.ports[0];
+
+        // Connect the bridge to both sides
+        newPort.onmessage = (event) => newWorker.postMessage(event.data);
+        newWorker.onmessage = (event) => newPort.postMessage(event.data);
+
+        worker = newWorker;
+        port = newPort;
+      }
+    };
   }
 });
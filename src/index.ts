@@ -1,2 +1,43 @@
-export type { CreateSandboxOptions, ExecutionOptions, Sandbox } from "./host";
-export { createSandbox } from "./host";
+export type { AuditEvent } from "./audit";
+export { toJsonLine } from "./audit";
+export type { ConsoleEntry, ConsoleLevel } from "./console";
+export type {
+  CreateSandboxOptions,
+  ExecResult,
+  ExecutionOptions,
+  HostCall,
+  HostCallDecision,
+  RunResult,
+  Sandbox,
+  SandboxSnapshot,
+  TransformResult,
+} from "./host";
+export { createSandbox, getAbortSignal } from "./host";
+export type { SandboxConnector, SandboxConnectorTarget } from "./connector";
+export { serveSandboxes } from "./connector";
+export type { DeterministicOptions } from "./deterministic";
+export type { FetchDecision, FetchOptions } from "./fetch";
+export type { GlobalsPolicy, GlobalsPreset } from "./globals";
+export type { FileStat, FileSystemOptions, VirtualFileSystem } from "./fs";
+export type { TimingOptions } from "./timing";
+export type { ModuleResolver } from "./modules";
+export type { SourceMap } from "./sourceMap";
+export type { CreateSandboxPoolOptions, SandboxPool } from "./pool";
+export { createSandboxPool } from "./pool";
+export {
+  SandboxAbortedError,
+  SandboxDisposedError,
+  SandboxError,
+  SandboxGuestError,
+  SandboxRestartedError,
+  SandboxRevokedError,
+  SandboxSyntaxError,
+  SandboxTimeoutError,
+} from "./errors";
+export type { FunctionSchema, ParameterSchema, Schema, SchemaType } from "./schema";
+export { withSchema } from "./schema";
+export { generateDeclarations } from "./declarations";
+export type { CodeTool, CodeToolOptions, CodeToolResult } from "./tool";
+export { createCodeTool } from "./tool";
+export type { ExposeInstanceOptions } from "./expose";
+export { exposeInstance } from "./expose";
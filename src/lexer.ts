@@ -0,0 +1,242 @@
+// A small JavaScript tokenizer, just precise enough to find statement
+// boundaries without a full parser. Whitespace and comments are skipped;
+// everything else is returned as a token with its source range.
+
+export type TokenType = "name" | "number" | "string" | "template" | "regex" | "punctuator";
+
+export type Token = {
+  type: TokenType;
+
+  /** The token's source text, including any quotes. */
+  value: string;
+
+  /** Offset of the token's first character. */
+  start: number;
+
+  /** Offset just past the token's last character. */
+  end: number;
+
+  /** Whether a line break came between this token and the previous one. */
+  newlineBefore: boolean;
+};
+
+// Keywords after which a slash starts a regular expression rather than a division
+const keywordsBeforeExpression = new Set([
+  "await",
+  "case",
+  "delete",
+  "do",
+  "else",
+  "in",
+  "instanceof",
+  "new",
+  "of",
+  "return",
+  "throw",
+  "typeof",
+  "void",
+  "yield",
+]);
+
+// Longest punctuators first, so that the first match is the right one
+const punctuators = [
+  ">>>=",
+  "...",
+  "===",
+  "!==",
+  "**=",
+  "<<=",
+  ">>=",
+  ">>>",
+  "&&=",
+  "||=",
+  "??=",
+  "=>",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "??",
+  "?.",
+  "++",
+  "--",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "&=",
+  "|=",
+  "^=",
+  "**",
+  "<<",
+  ">>",
+];
+
+const namePattern = /[\p{ID_Continue}$\u200c\u200d]/u;
+
+function isNameChar(char: string | undefined) {
+  return char !== undefined && (namePattern.test(char) || char === "\\");
+}
+
+function isLineBreak(char: string | undefined) {
+  return char === "\n" || char === "\r" || char === "\u2028" || char === "\u2029";
+}
+
+/** Whether a slash following `token` would be a division operator. */
+function endsExpression(token: Token | undefined) {
+  if (!token) {
+    return false;
+  }
+  switch (token.type) {
+    case "name":
+      return !keywordsBeforeExpression.has(token.value);
+    case "punctuator":
+      // A closing brace may also end a block, in which case this guesses wrong
+      return token.value === ")" || token.value === "]" || token.value === "}";
+    case "template":
+      // Only the final chunk of a template ends it, the others open a substitution
+      return token.value.endsWith("`");
+    default:
+      return true;
+  }
+}
+
+/**
+ * Splits JavaScript source code into tokens.
+ *
+ * @throws If a string, template, regular expression or comment is unterminated.
+ */
+export function tokenize(code: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let newlineBefore = false;
+
+  // One entry per open brace, recording whether it started a template
+  // substitution so the matching "}" resumes the template
+  const braces: boolean[] = [];
+
+  function push(type: TokenType, start: number) {
+    tokens.push({ type, value: code.slice(start, pos), start, end: pos, newlineBefore });
+    newlineBefore = false;
+  }
+
+  /** Scans the rest of a template chunk, after its opening "`" or "}". */
+  function scanTemplate(start: number) {
+    while (pos < code.length) {
+      const char = code[pos];
+      if (char === "\\") {
+        pos += 2;
+      } else if (char === "`") {
+        ++pos;
+        push("template", start);
+        return;
+      } else if (char === "$" && code[pos + 1] === "{") {
+        pos += 2;
+        push("template", start);
+        braces.push(true);
+        return;
+      } else {
+        ++pos;
+      }
+    }
+    throw new SyntaxError("Unterminated template literal");
+  }
+
+  while (pos < code.length) {
+    const start = pos;
+    const char = code[pos];
+    const next = code[pos + 1];
+
+    if (isLineBreak(char)) {
+      newlineBefore = true;
+      ++pos;
+    } else if (/\s/.test(char)) {
+      ++pos;
+    } else if (char === "/" && next === "/") {
+      while (pos < code.length && !isLineBreak(code[pos])) {
+        ++pos;
+      }
+    } else if (char === "/" && next === "*") {
+      const end = code.indexOf("*/", pos + 2);
+      if (end < 0) {
+        throw new SyntaxError("Unterminated comment");
+      }
+      if (/[\n\r\u2028\u2029]/.test(code.slice(pos, end))) {
+        newlineBefore = true;
+      }
+      pos = end + 2;
+    } else if (char === '"' || char === "'") {
+      ++pos;
+      while (code[pos] !== char) {
+        if (pos >= code.length || isLineBreak(code[pos])) {
+          throw new SyntaxError("Unterminated string literal");
+        }
+        pos += code[pos] === "\\" ? 2 : 1;
+      }
+      ++pos;
+      push("string", start);
+    } else if (char === "`") {
+      ++pos;
+      scanTemplate(start);
+    } else if (char === "/" && !endsExpression(tokens.at(-1))) {
+      let inClass = false;
+      ++pos;
+      while (inClass || code[pos] !== "/") {
+        if (pos >= code.length || isLineBreak(code[pos])) {
+          throw new SyntaxError("Unterminated regular expression");
+        }
+        if (code[pos] === "\\") {
+          ++pos;
+        } else if (code[pos] === "[") {
+          inClass = true;
+        } else if (code[pos] === "]") {
+          inClass = false;
+        }
+        ++pos;
+      }
+      ++pos;
+      while (isNameChar(code[pos])) {
+        ++pos;
+      }
+      push("regex", start);
+    } else if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(next ?? ""))) {
+      while (pos < code.length && /[\w.]/.test(code[pos])) {
+        // Exponents may be signed
+        if (
+          /[eE]/.test(code[pos]) &&
+          /[+-]/.test(code[pos + 1]) &&
+          !/^0[xX]/.test(code.slice(start))
+        ) {
+          ++pos;
+        }
+        ++pos;
+      }
+      push("number", start);
+    } else if (isNameChar(char) || char === "#") {
+      ++pos;
+      while (isNameChar(code[pos])) {
+        pos += code[pos] === "\\" ? 2 : 1;
+      }
+      push("name", start);
+    } else if (char === "}" && braces.pop()) {
+      ++pos;
+      scanTemplate(start);
+    } else {
+      if (char === "{") {
+        braces.push(false);
+      }
+      const punctuator = punctuators.find((p) => code.startsWith(p, pos));
+      // "?." followed by a digit is a conditional operator and a number
+      pos +=
+        punctuator && !(punctuator === "?." && /[0-9]/.test(code[pos + 2] ?? ""))
+          ? punctuator.length
+          : 1;
+      push("punctuator", start);
+    }
+  }
+
+  return tokens;
+}
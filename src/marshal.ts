@@ -0,0 +1,128 @@
+// Functions can't be structured cloned, so when one needs to cross the sandbox
+// boundary it's registered on the sending side and replaced with a reference
+// that the receiving side turns back into an RPC proxy.
+
+import { getExposeOptions, getInstanceMembers } from "./expose";
+
+/** A placeholder for a function that was registered on the other side of the boundary. */
+type FunctionRef = { functionId: number };
+
+/**
+ * A value with its functions replaced with placeholders, which are listed in
+ * `functions`. Structured cloning keeps an object that a message references
+ * twice as one object, so the receiving side tells placeholders apart from data
+ * by identity rather than by their shape, which any data could mimic.
+ */
+export type Encoded = { value: unknown; functions: FunctionRef[] };
+
+export function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// Defines rather than assigns, so that a "__proto__" key stays an own property
+// instead of replacing the copy's prototype
+function setProperty(object: object, key: string, value: unknown) {
+  Object.defineProperty(object, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Returns a copy of `value` with every function found in arrays, plain objects
+ * and exposed instances replaced with a placeholder. `register` receives each
+ * function along with the object that contained it, if any, and its path within
+ * `value`, like `".items[0].save"`.
+ */
+export function encodeFunctions(
+  value: unknown,
+  // biome-ignore lint/complexity/noBannedTypes: false positive
+  register: (fn: Function, parent: object | undefined, path: string) => number,
+): Encoded {
+  const functions: FunctionRef[] = [];
+  const seen = new Map<object, unknown>();
+
+  function encode(value: unknown, parent: object | undefined, path: string): unknown {
+    if (typeof value === "function") {
+      const ref = { functionId: register(value, parent, path) };
+      functions.push(ref);
+      return ref;
+    }
+    if (typeof value !== "object" || value === null) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return seen.get(value);
+    }
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+      seen.set(value, copy);
+      for (const [i, item] of value.entries()) {
+        copy.push(encode(item, value, `${path}[${i}]`));
+      }
+      return copy;
+    }
+    const exposeOpts = getExposeOptions(value);
+    if (isPlainObject(value) || exposeOpts) {
+      const copy: Record<string, unknown> = {};
+      seen.set(value, copy);
+      const entries = exposeOpts
+        ? getInstanceMembers(value, exposeOpts).values
+        : Object.entries(value);
+      for (const [key, item] of entries) {
+        setProperty(copy, key, encode(item, value, `${path}.${key}`));
+      }
+      return copy;
+    }
+    return value;
+  }
+
+  return { value: encode(value, undefined, ""), functions };
+}
+
+/**
+ * Returns a copy of the value encoded by {@link encodeFunctions} with every
+ * placeholder replaced with the result of `revive`, which receives the
+ * function's ID along with the (copied) object that contained it, if any.
+ */
+export function decodeFunctions(
+  encoded: Encoded,
+  revive: (id: number, parent: object | undefined) => unknown,
+): unknown {
+  const functions = new Set<unknown>(encoded.functions);
+  const seen = new Map<object, unknown>();
+
+  function decode(value: unknown, parent: object | undefined): unknown {
+    if (typeof value !== "object" || value === null) {
+      return value;
+    }
+    if (functions.has(value)) {
+      return revive((value as FunctionRef).functionId, parent);
+    }
+    if (seen.has(value)) {
+      return seen.get(value);
+    }
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+      seen.set(value, copy);
+      for (const item of value) {
+        copy.push(decode(item, copy));
+      }
+      return copy;
+    }
+    if (isPlainObject(value)) {
+      const copy: Record<string, unknown> = {};
+      seen.set(value, copy);
+      for (const [key, item] of Object.entries(value)) {
+        setProperty(copy, key, decode(item, copy));
+      }
+      return copy;
+    }
+    return value;
+  }
+
+  return decode(encoded.value, undefined);
+}
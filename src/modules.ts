@@ -0,0 +1,379 @@
+// The worker imports code from data: URLs, which can't resolve bare or relative
+// specifiers. Instead of relaxing the CSP, the host links modules ahead of time
+// by replacing each specifier with a data: URL of the module's (linked) source.
+//
+// A data: URL holds the code of its module, so modules that import each other
+// can't all point at each other's URLs. Within a cycle, imports of a module
+// that's still being linked point at a "shell" instead: a module exporting the
+// same names, which the real module fills in once it has been evaluated.
+
+import { type Export, init, parse } from "es-module-lexer/js";
+
+/** Loads the source code of a module by name, see {@link CreateSandboxOptions.modules}. */
+export type ModuleResolver = (name: string) => string | undefined | Promise<string | undefined>;
+
+/** A module specifier found in a piece of code. */
+type Specifier = {
+  /** Where the specifier is in the code, including its quotes. */
+  start: number;
+  end: number;
+
+  /** The specifier as written. */
+  value: string;
+
+  /** The module it resolves to, or undefined for URLs, which are left alone. */
+  name: string | undefined;
+};
+
+/** A piece of code and the imports and exports found in it. */
+type ParsedCode = {
+  code: string;
+
+  /**
+   * Specifiers of static imports, re-exports and dynamic imports of string
+   * literals, by the index es-module-lexer gives the import.
+   */
+  specifiers: Array<Specifier | undefined>;
+
+  exports: readonly Export[];
+};
+
+/**
+ * Resolves a specifier to a module name. Relative specifiers are resolved like
+ * URL paths against the name of the importing module, or against the root for
+ * code passed to {@link Sandbox.run}. Other specifiers are names as they are.
+ */
+function resolveSpecifier(specifier: string, referrer: string | undefined): string {
+  if (/^\.{0,2}\//.test(specifier)) {
+    const url = new URL(specifier, `file:///${referrer ?? ""}`);
+    return decodeURIComponent(url.pathname.slice(1));
+  }
+  return specifier;
+}
+
+function toDataUrl(code: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(code)) {
+    binary += String.fromCharCode(byte);
+  }
+  return `data:text/javascript;base64,${btoa(binary)}`;
+}
+
+/** Finds the module specifiers in a piece of code, resolved against the module named `referrer`. */
+function parseCode(code: string, referrer: string | undefined): ParsedCode {
+  let imports: ReturnType<typeof parse>[0];
+  let exports: readonly Export[];
+  try {
+    [imports, exports] = parse(code);
+  } catch {
+    // Leave it to the worker to report the syntax error
+    return { code, specifiers: [], exports: [] };
+  }
+
+  const specifiers = imports.map((entry): Specifier | undefined => {
+    if (entry.type === "import-meta" || entry.specifier === undefined) {
+      return undefined;
+    }
+    if (entry.type === "dynamic" && entry.glob) {
+      return undefined;
+    }
+    // Static imports are located without their quotes
+    const [start, end] =
+      entry.type === "dynamic" ? [entry.start, entry.end] : [entry.start - 1, entry.end + 1];
+    const value = entry.specifier;
+    const name = /^[a-z][a-z\d+.-]*:/i.test(value) ? undefined : resolveSpecifier(value, referrer);
+    return { start, end, value, name };
+  });
+  return { code, specifiers, exports };
+}
+
+// Where the shells of modules in a cycle register how to fill them in, and the
+// modules fill them in from
+const shellRegistryUrl = toDataUrl(
+  "const shells = new Map();\n" +
+    "export const register = (name, fill) => shells.set(name, fill);\n" +
+    "export const bind = (name, exports) => shells.get(name)(exports);",
+);
+
+/**
+ * Creates a function that rewrites the module specifiers in a piece of code to
+ * data: URLs, loading and linking the modules it depends on.
+ *
+ * Specifiers that are already URLs are left alone. Each module is loaded at
+ * most once, and always links to the same URL, so it's only evaluated once per
+ * worker no matter how many times it's imported.
+ *
+ * Modules may import each other in a cycle. Imports that close a cycle see the
+ * exports of the module they import once it has finished evaluating, except
+ * for anonymous default exports, and without later reassignments.
+ */
+export function createModuleLinker(
+  modules: Record<string, string> | ModuleResolver,
+): (code: string) => Promise<string> {
+  const load: ModuleResolver =
+    typeof modules === "function"
+      ? modules
+      : (name) => (Object.hasOwn(modules, name) ? modules[name] : undefined);
+
+  const loading = new Map<string, Promise<ParsedCode>>();
+  const parsed = new Map<string, ParsedCode>();
+
+  // The URL to import each linked module by. For a module in a cycle other
+  // than the one the cycle was entered through, it's a module that imports
+  // that one first, so the whole cycle is evaluated.
+  const urls = new Map<string, string>();
+
+  function loadModule(name: string): Promise<ParsedCode> {
+    let module = loading.get(name);
+    if (!module) {
+      module = Promise.resolve(load(name)).then((source) => {
+        if (source === undefined) {
+          throw new Error(`Cannot find module '${name}'`);
+        }
+        const result = parseCode(source, name);
+        parsed.set(name, result);
+        return result;
+      });
+      loading.set(name, module);
+      // Allow retrying a failed load
+      module.catch(() => loading.delete(name));
+    }
+    return module;
+  }
+
+  /** Loads the modules that `code` depends on and haven't been linked yet. */
+  async function loadDependencies(code: ParsedCode, visited: Set<string>): Promise<void> {
+    await Promise.all(
+      code.specifiers.map(async (specifier) => {
+        const name = specifier?.name;
+        if (name === undefined || urls.has(name) || visited.has(name)) {
+          return;
+        }
+        visited.add(name);
+        await loadDependencies(await loadModule(name), visited);
+      }),
+    );
+  }
+
+  /** Returns the names a module exports, including those of `export *`. */
+  function getExportNames(name: string, seen = new Set<string>()): Set<string> {
+    const names = new Set<string>();
+    const module = parsed.get(name);
+    if (!module || seen.has(name)) {
+      return names;
+    }
+    seen.add(name);
+    for (const entry of module.exports) {
+      if (entry.type !== "reexport-all") {
+        names.add(entry.name);
+        continue;
+      }
+      const target = module.specifiers[entry.importIndex]?.name;
+      for (const starName of target === undefined ? [] : getExportNames(target, seen)) {
+        if (starName !== "default") {
+          names.add(starName);
+        }
+      }
+    }
+    return names;
+  }
+
+  /** Returns the code of a shell for a module, filled in by {@link bindShell}. */
+  function createShell(name: string): string {
+    const names = [...getExportNames(name)];
+    const locals = names.map((_, i) => `e${i}`);
+    const assignments = names.map(
+      (exported, i) => `${locals[i]} = m[${JSON.stringify(exported)}];`,
+    );
+    return [
+      `import { register } from ${JSON.stringify(shellRegistryUrl)};`,
+      names.length > 0 ? `let ${locals.join(", ")};` : "",
+      `export { ${names.map((exported, i) => `${locals[i]} as ${JSON.stringify(exported)}`).join(", ")} };`,
+      `register(${JSON.stringify(name)}, (m) => { ${assignments.join(" ")} });`,
+    ].join("\n");
+  }
+
+  /**
+   * Returns code to append to a module so that it fills in its shell with its
+   * exports once it has been evaluated.
+   */
+  function bindShell(
+    name: string,
+    module: ParsedCode,
+    shellUrl: string,
+    linkedSpecifiers: string[],
+  ): string {
+    const imports = [
+      `import { bind as __slopjailBind } from ${JSON.stringify(shellRegistryUrl)}`,
+      `import ${JSON.stringify(shellUrl)}`,
+    ];
+    const members: string[] = [];
+    const ownNames = new Set<string>();
+
+    function importFrom(importIndex: number, clause: (local: string) => string): string {
+      const local = `__slopjailExport${imports.length}`;
+      imports.push(`import ${clause(local)} from ${linkedSpecifiers[importIndex]}`);
+      return local;
+    }
+
+    for (const entry of module.exports) {
+      switch (entry.type) {
+        case "direct":
+          ownNames.add(entry.name);
+          if (entry.localName !== undefined) {
+            members.push(`${JSON.stringify(entry.name)}: ${entry.localName}`);
+          }
+          break;
+        case "reexport": {
+          ownNames.add(entry.name);
+          const { importName } = entry;
+          const local = importFrom(entry.importIndex, (local) =>
+            importName === null ? `* as ${local}` : `{ ${JSON.stringify(importName)} as ${local} }`,
+          );
+          members.push(`${JSON.stringify(entry.name)}: ${local}`);
+          break;
+        }
+      }
+    }
+    for (const entry of module.exports) {
+      const target = entry.type === "reexport-all" && module.specifiers[entry.importIndex]?.name;
+      if (entry.type !== "reexport-all" || !target) {
+        continue;
+      }
+      const local = importFrom(entry.importIndex, (local) => `* as ${local}`);
+      for (const starName of getExportNames(target)) {
+        if (starName !== "default" && !ownNames.has(starName)) {
+          members.push(`${JSON.stringify(starName)}: ${local}[${JSON.stringify(starName)}]`);
+        }
+      }
+    }
+    return `\n;${imports.join(";\n")};\n__slopjailBind(${JSON.stringify(name)}, { ${members.join(", ")} });`;
+  }
+
+  /**
+   * Rewrites the specifiers of `code` to the URLs of the modules they resolve
+   * to. Returns the linked code, and each specifier as linked, quoted, by the
+   * index of its import.
+   */
+  function rewrite(
+    code: ParsedCode,
+    urlOf: (name: string) => string,
+  ): { linked: string; linkedSpecifiers: string[] } {
+    const linkedSpecifiers: string[] = [];
+    const replacements: Array<{ start: number; end: number; url: string }> = [];
+    for (const [i, specifier] of code.specifiers.entries()) {
+      if (!specifier) {
+        continue;
+      }
+      if (specifier.name === undefined) {
+        linkedSpecifiers[i] = JSON.stringify(specifier.value);
+        continue;
+      }
+      const url = JSON.stringify(urlOf(specifier.name));
+      linkedSpecifiers[i] = url;
+      replacements.push({ start: specifier.start, end: specifier.end, url });
+    }
+    replacements.sort((a, b) => a.start - b.start);
+
+    let linked = "";
+    let pos = 0;
+    for (const { start, end, url } of replacements) {
+      linked += `${code.code.slice(pos, start)}${url}`;
+      pos = end;
+    }
+    return { linked: linked + code.code.slice(pos), linkedSpecifiers };
+  }
+
+  /**
+   * Links the loaded modules that `code` depends on, finding cycles with
+   * Tarjan's algorithm, and returns `code` linked.
+   */
+  function linkGraph(code: ParsedCode): string {
+    // Per module being linked: the order it was reached in, the lowest order
+    // reachable from it, and its URL within its cycle once linked
+    const order = new Map<string, number>();
+    const lowest = new Map<string, number>();
+    const linkedUrls = new Map<string, string>();
+    const stack: string[] = [];
+    const shells = new Map<string, string>();
+
+    function shellOf(name: string): string {
+      let url = shells.get(name);
+      if (!url) {
+        url = toDataUrl(createShell(name));
+        shells.set(name, url);
+      }
+      return url;
+    }
+
+    function visit(name: string) {
+      // biome-ignore lint/style/noNonNullAssertion: loaded by loadDependencies()
+      const module = parsed.get(name)!;
+      order.set(name, order.size);
+      lowest.set(name, order.get(name) as number);
+      stack.push(name);
+
+      for (const specifier of module.specifiers) {
+        const dependency = specifier?.name;
+        if (dependency === undefined || urls.has(dependency)) {
+          continue;
+        }
+        if (!order.has(dependency)) {
+          visit(dependency);
+        }
+        if (stack.includes(dependency)) {
+          lowest.set(name, Math.min(lowest.get(name) as number, lowest.get(dependency) as number));
+        }
+      }
+
+      const { linked, linkedSpecifiers } = rewrite(module, (dependency) => {
+        const url = urls.get(dependency) ?? linkedUrls.get(dependency);
+        // Otherwise it's still being linked, further up the stack
+        return url ?? shellOf(dependency);
+      });
+      const shellUrl = shells.get(name);
+      const binding = shellUrl ? bindShell(name, module, shellUrl, linkedSpecifiers) : "";
+      // Named so that modules with the same code are still evaluated separately
+      linkedUrls.set(name, toDataUrl(`${linked}${binding}\n//# sourceURL=${encodeURI(name)}`));
+
+      if (lowest.get(name) !== order.get(name)) {
+        return;
+      }
+      // The root of a cycle, or a module outside of any
+      const cycle = stack.splice(stack.indexOf(name));
+      // biome-ignore lint/style/noNonNullAssertion: linked above
+      const rootUrl = linkedUrls.get(name)!;
+      for (const member of cycle) {
+        if (member === name) {
+          urls.set(member, rootUrl);
+          continue;
+        }
+        // biome-ignore lint/style/noNonNullAssertion: linked before the root
+        const memberUrl = JSON.stringify(linkedUrls.get(member)!);
+        const hasDefault = getExportNames(member).has("default");
+        urls.set(
+          member,
+          toDataUrl(
+            `import ${JSON.stringify(rootUrl)};\nexport * from ${memberUrl};\n` +
+              (hasDefault ? `export { default } from ${memberUrl};\n` : ""),
+          ),
+        );
+      }
+    }
+
+    for (const specifier of code.specifiers) {
+      const name = specifier?.name;
+      if (name !== undefined && !urls.has(name)) {
+        visit(name);
+      }
+    }
+    return rewrite(code, (name) => urls.get(name) as string).linked;
+  }
+
+  return async (code) => {
+    await init();
+    const parsedCode = parseCode(code, undefined);
+    await loadDependencies(parsedCode, new Set());
+    return linkGraph(parsedCode);
+  };
+}
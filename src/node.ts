@@ -0,0 +1,128 @@
+// The Node.js entry point, slopjail/node. Sandboxes run in worker threads
+// instead of a Web Worker inside an iframe, with the same API.
+
+import * as nodeModule from "node:module";
+import {
+  type MessagePort as NodeMessagePort,
+  type ResourceLimits,
+  Worker,
+} from "node:worker_threads";
+
+import {
+  type CreateBackend,
+  type CreateSandboxOptions,
+  createSandboxWith,
+  type Sandbox,
+} from "./host";
+import nodeWorkerSource from "./nodeWorker?bundled";
+import { createSandboxPoolWith, type PoolOptions, type SandboxPool } from "./pool";
+import workerSource from "./worker?bundled";
+
+export * from "./index";
+
+/**
+ * Options for {@link createSandbox} in Node.js.
+ *
+ * There's no Content-Security-Policy, so network access is always blocked.
+ * Use {@link CreateSandboxOptions.fetch} to let sandboxed code make requests.
+ */
+export type NodeSandboxOptions = Omit<
+  CreateSandboxOptions,
+  "contentSecurityPolicy" | "connector"
+> & {
+  /**
+   * Limits on the resources of the worker thread. A worker that exceeds them
+   * is stopped, failing the calls in progress, and a fresh one is started as
+   * after a timeout.
+   *
+   * Defaults to `{ maxOldGenerationSizeMb: 256 }`.
+   */
+  resourceLimits?: ResourceLimits;
+};
+
+/**
+ * Options for {@link createSandboxPool} in Node.js.
+ */
+export type NodeSandboxPoolOptions = NodeSandboxOptions & PoolOptions;
+
+const bootstrapUrl = new URL(
+  `data:text/javascript;charset=utf-8,${encodeURIComponent(nodeWorkerSource)}`,
+);
+
+/** Runs workers in worker threads, locked down by nodeWorker.ts. */
+function createWorkerThreadBackend(
+  resourceLimits: ResourceLimits = { maxOldGenerationSizeMb: 256 },
+): CreateBackend {
+  return async (name, onCrash) => {
+    let worker: Worker | undefined;
+    return {
+      spawn(port) {
+        void worker?.terminate();
+        // The host's MessageChannel is Node's, despite its DOM type
+        const nodePort = port as unknown as NodeMessagePort;
+        const spawned = new Worker(bootstrapUrl, {
+          name,
+          workerData: { port: nodePort, workerSource },
+          transferList: [nodePort],
+          resourceLimits,
+          env: {},
+        });
+        spawned.on("error", (err: Error) => {
+          if (spawned === worker) {
+            onCrash(err);
+          }
+        });
+        worker = spawned;
+      },
+
+      dispose() {
+        void worker?.terminate();
+        worker = undefined;
+      },
+    };
+  };
+}
+
+/**
+ * Create a new sandboxed execution environment in Node.js.
+ *
+ * Works like {@link createSandbox} in browsers, except that sandboxed code runs
+ * in a worker thread with {@link NodeSandboxOptions.resourceLimits}. The
+ * thread's global scope is locked down to match a Web Worker's: Node.js
+ * globals like `process` are removed, and only data: URLs can be imported, so
+ * built-in modules and local files can't be. Requires Node.js 22.15 or later.
+ *
+ * @param opts - Sandbox configuration.
+ * @returns A {@link Sandbox} handle for running code and cleaning up.
+ *
+ * @example
+ * ```typescript
+ * import { createSandbox } from "slopjail/node"
+ *
+ * using sandbox = await createSandbox({
+ *   globals: { add: (a: number, b: number) => a + b },
+ *   resourceLimits: { maxOldGenerationSizeMb: 64 },
+ * })
+ *
+ * await sandbox.run('console.log(await add(1, 2))')
+ * ```
+ */
+export async function createSandbox(opts?: NodeSandboxOptions): Promise<Sandbox> {
+  // Used by nodeWorker.ts to restrict imports
+  if (typeof nodeModule.registerHooks !== "function") {
+    throw new Error("slopjail/node requires Node.js 22.15 or later");
+  }
+  return createSandboxWith(opts, createWorkerThreadBackend(opts?.resourceLimits));
+}
+
+/**
+ * Create a pool of pre-warmed sandboxes in Node.js, like
+ * {@link createSandboxPool} in browsers.
+ *
+ * @param opts - Pool configuration, along with the options passed to
+ * {@link createSandbox} for every sandbox in the pool.
+ * @returns A {@link SandboxPool} for acquiring and releasing sandboxes.
+ */
+export function createSandboxPool(opts: NodeSandboxPoolOptions): SandboxPool {
+  return createSandboxPoolWith(opts, createSandbox);
+}
@@ -0,0 +1,97 @@
+// This script runs first in every worker thread of the Node.js backend. It
+// locks the thread down to what a Web Worker in the sandboxed iframe could do,
+// then starts the same worker as in browsers, bridged to the host's
+// MessagePort the way iframe.ts bridges it in browsers.
+
+import { registerHooks } from "node:module";
+import { type MessagePort, workerData } from "node:worker_threads";
+
+const { port, workerSource } = workerData as { port: MessagePort; workerSource: string };
+const nodeConsole = console;
+const nodeProcess = process;
+
+// The worker imports sandboxed code from data: URLs, which Node.js would let
+// import built-in modules like node:fs, and local files. Only allow data: URLs,
+// like the CSP does in browsers.
+registerHooks({
+  resolve(specifier, context, nextResolve) {
+    if (!specifier.startsWith("data:")) {
+      throw new TypeError(`Failed to resolve module specifier '${specifier}'`);
+    }
+    return nextResolve(specifier, context);
+  },
+});
+
+// Node.js loads the implementation of these on first use, with code that needs
+// the globals removed below, so load them now
+for (const name of ["fetch", "Request", "Response", "Headers", "FormData", "WebSocket"]) {
+  Reflect.get(globalThis, name);
+}
+
+// Globals that Web Workers don't have, or that reach outside of the thread:
+// the process, channels to other threads, and the network. The fetch option
+// installs its own fetch() later. Buffer stays, since Request and Response use
+// it to read bodies, but see below.
+const blocked = [
+  "process",
+  "global",
+  "setImmediate",
+  "clearImmediate",
+  "BroadcastChannel",
+  "fetch",
+  "WebSocket",
+  "EventSource",
+  "localStorage",
+  "sessionStorage",
+];
+for (const prop of blocked) {
+  let proto = globalThis;
+  while (proto) {
+    if (Object.hasOwn(proto, prop)) {
+      Object.defineProperty(proto, prop, {
+        value: undefined,
+      });
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+}
+
+// Buffer hands out memory that isn't zeroed, which may still hold data from
+// elsewhere in the process: from allocUnsafe() and allocUnsafeSlow(), and in
+// the pool that small buffers are cut from, whose unused part anyone holding
+// one of them can read through its ArrayBuffer. Buffer.concat(), which reading
+// bodies relies on, calls allocUnsafe(), so it's made to zero memory rather
+// than removed, and the pool is turned off.
+const zeroedBuffer = Buffer.alloc.bind(Buffer);
+Object.defineProperties(Buffer, {
+  allocUnsafe: { value: (size: number) => zeroedBuffer(size) },
+  allocUnsafeSlow: { value: (size: number) => zeroedBuffer(size) },
+  poolSize: { value: 0, writable: false, configurable: false },
+});
+
+// Give the worker the global scope of a Web Worker to talk to the host through
+Object.assign(globalThis, {
+  self: globalThis,
+  postMessage: (message: unknown, transfer?: Transferable[]) => {
+    port.postMessage(message, transfer as never);
+  },
+  addEventListener: port.addEventListener.bind(port),
+  removeEventListener: port.removeEventListener.bind(port),
+  dispatchEvent: port.dispatchEvent.bind(port),
+});
+
+// If the worker fails to start, the rejection ends the thread and the host
+// sees it crash
+void import(`data:text/javascript;charset=utf-8,${encodeURIComponent(workerSource)}`).then(() => {
+  // From now on, report uncaught errors like browsers do, instead of ending
+  // the thread
+  nodeProcess.on("uncaughtException", (err) => {
+    nodeConsole.error("Uncaught", err);
+  });
+  nodeProcess.on("unhandledRejection", (reason) => {
+    nodeConsole.error("Uncaught (in promise)", reason);
+  });
+
+  // Only start receiving messages once the worker is listening for them
+  port.start();
+});
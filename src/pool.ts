@@ -0,0 +1,210 @@
+import { SandboxDisposedError } from "./errors";
+import { type CreateSandboxOptions, createSandbox, type Sandbox } from "./host";
+
+/**
+ * Options for creating a pool of pre-warmed sandboxes.
+ */
+export type CreateSandboxPoolOptions = CreateSandboxOptions & PoolOptions;
+
+/** The options of a pool itself, as opposed to those of its sandboxes. */
+export type PoolOptions = {
+  /**
+   * Number of ready sandboxes to keep warm.
+   */
+  size: number;
+
+  /**
+   * Whether a sandbox that has been used may be handed out again after it's
+   * released. A sandbox becomes dirty once code has run in it or its globals
+   * have been changed.
+   *
+   * By default dirty sandboxes are disposed on release and replaced with fresh
+   * ones, so every {@link SandboxPool.acquire} returns a clean sandbox. Enable
+   * this to trade isolation between executions for fewer sandbox creations.
+   *
+   * Defaults to `false`.
+   */
+  reuseDirty?: boolean;
+};
+
+/**
+ * A pool of pre-warmed sandboxes, created with {@link createSandboxPool}.
+ */
+export type SandboxPool = {
+  /**
+   * Take a ready sandbox from the pool, or create a new one if none are ready.
+   * The pool starts warming up a replacement immediately.
+   *
+   * Disposing the returned sandbox releases it back to the pool, so it can be
+   * used with `using`.
+   */
+  acquire(): Promise<Sandbox>;
+
+  /**
+   * Return a sandbox to the pool. Depending on
+   * {@link CreateSandboxPoolOptions.reuseDirty} it's either kept for reuse or
+   * disposed, and it's never reused if it has been disposed already. The
+   * sandbox must not be used after it's released.
+   *
+   * @param sandbox - A sandbox returned by {@link SandboxPool.acquire}.
+   */
+  release(sandbox: Sandbox): void;
+
+  /**
+   * Dispose all ready sandboxes in the pool. Sandboxes that are currently
+   * acquired are disposed when they're released.
+   */
+  dispose(): void;
+
+  [Symbol.dispose](): void;
+};
+
+/**
+ * Create a pool that keeps sandboxes ready ahead of time, to avoid paying for
+ * iframe and worker startup on every execution.
+ *
+ * @param opts - Pool configuration, along with the options passed to
+ * {@link createSandbox} for every sandbox in the pool.
+ * @returns A {@link SandboxPool} for acquiring and releasing sandboxes.
+ *
+ * @example
+ * ```typescript
+ * const pool = createSandboxPool({ size: 2, console: true })
+ *
+ * async function runTool(code: string) {
+ *   using sandbox = await pool.acquire()
+ *   return sandbox.run(code)
+ * }
+ * ```
+ */
+export function createSandboxPool(opts: CreateSandboxPoolOptions): SandboxPool {
+  return createSandboxPoolWith(opts, createSandbox);
+}
+
+/** Creates a pool of sandboxes created with `create`, which is given the rest of the options. */
+export function createSandboxPoolWith<T extends object>(
+  opts: T & PoolOptions,
+  create: (opts: T) => Promise<Sandbox>,
+): SandboxPool {
+  const { size, reuseDirty = false, ...sandboxOpts } = opts;
+
+  const ready: Array<Promise<Sandbox>> = [];
+  const acquired = new WeakMap<Sandbox, { sandbox: Sandbox; dirty: boolean }>();
+  let disposed = false;
+
+  function spawn() {
+    const sandbox = create(sandboxOpts as T);
+    sandbox.catch(() => {}); // reported by acquire()
+    return sandbox;
+  }
+
+  function fill() {
+    while (ready.length < size) {
+      ready.push(spawn());
+    }
+  }
+
+  /** Wraps a sandbox to track whether it has been used, and to release it on dispose. */
+  function wrap(sandbox: Sandbox): Sandbox {
+    const entry = { sandbox, dirty: false };
+
+    function use(dirty: boolean) {
+      if (acquired.get(wrapper) !== entry) {
+        throw new Error("Sandbox has been released");
+      }
+      entry.dirty ||= dirty;
+      return sandbox;
+    }
+
+    const release = () => {
+      pool.release(wrapper);
+    };
+
+    const wrapper: Sandbox = {
+      async run(code, execOpts) {
+        return use(true).run(code, execOpts);
+      },
+      async exec(code, execOpts) {
+        return use(true).exec(code, execOpts);
+      },
+      async evaluate(expr, execOpts) {
+        return use(true).evaluate(expr, execOpts);
+      },
+      async snapshot(execOpts) {
+        return use(false).snapshot(execOpts);
+      },
+      async setGlobals(globals) {
+        return use(true).setGlobals(globals);
+      },
+      async deleteGlobal(name) {
+        return use(true).deleteGlobal(name);
+      },
+      revoke(fn) {
+        use(true).revoke(fn);
+      },
+      get fs() {
+        return use(true).fs;
+      },
+      get disposed() {
+        return acquired.get(wrapper) !== entry || sandbox.disposed;
+      },
+      dispose: release,
+      [Symbol.dispose]: release,
+    };
+    acquired.set(wrapper, entry);
+    return wrapper;
+  }
+
+  function disposeWhenReady(sandbox: Promise<Sandbox>) {
+    sandbox.then(
+      (sandbox) => sandbox.dispose(),
+      () => {},
+    );
+  }
+
+  const dispose = () => {
+    disposed = true;
+    for (const sandbox of ready.splice(0)) {
+      disposeWhenReady(sandbox);
+    }
+  };
+
+  const pool: SandboxPool = {
+    async acquire() {
+      if (disposed) {
+        throw new SandboxDisposedError("Sandbox pool has been disposed");
+      }
+      const sandbox = ready.shift() ?? spawn();
+      fill();
+      return wrap(await sandbox);
+    },
+
+    release(wrapper) {
+      const entry = acquired.get(wrapper);
+      if (!entry) {
+        return; // Already released
+      }
+      acquired.delete(wrapper);
+
+      // A sandbox may have disposed itself, like after a timeout
+      if (disposed || entry.sandbox.disposed || (entry.dirty && !reuseDirty)) {
+        entry.sandbox.dispose();
+        return;
+      }
+
+      // Hand out the released sandbox next, and drop the most recently spawned
+      // one if that leaves the pool over its size
+      ready.unshift(Promise.resolve(entry.sandbox));
+      if (ready.length > size) {
+        // biome-ignore lint/style/noNonNullAssertion: length is over size
+        disposeWhenReady(ready.pop()!);
+      }
+    },
+
+    dispose,
+    [Symbol.dispose]: dispose,
+  };
+
+  fill();
+  return pool;
+}
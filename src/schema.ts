@@ -0,0 +1,270 @@
+import { isPlainObject } from "./marshal";
+
+/**
+ * A schema for a value, using a subset of JSON Schema. Keywords that aren't
+ * listed here are ignored.
+ */
+export type Schema = {
+  /**
+   * The type (or types) the value must have. `"integer"` is a number without a
+   * fractional part, and `"function"` matches functions passed from the
+   * sandbox as callbacks.
+   */
+  type?: SchemaType | SchemaType[];
+
+  /** A description of the value, for documentation. */
+  description?: string;
+
+  /** The only values allowed, compared with `===`. */
+  enum?: unknown[];
+
+  /** Schemas of which the value must match at least one. */
+  anyOf?: Schema[];
+
+  minimum?: number;
+  maximum?: number;
+
+  minLength?: number;
+  maxLength?: number;
+
+  /** A regular expression that strings must match. */
+  pattern?: string;
+
+  /** The schema of every item of an array. */
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+
+  /** The schemas of an object's properties. */
+  properties?: Record<string, Schema>;
+
+  /**
+   * Properties that an object must have. Objects checked against
+   * {@link properties}, `required` or {@link additionalProperties} must be
+   * plain objects, whose properties are all their own.
+   */
+  required?: string[];
+
+  /**
+   * Whether an object may have properties not listed in {@link properties},
+   * or the schema they must match. Defaults to `true`.
+   */
+  additionalProperties?: boolean | Schema;
+};
+
+export type SchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null"
+  | "object"
+  | "array"
+  | "function";
+
+/** The schema of a parameter of a function, see {@link FunctionSchema}. */
+export type ParameterSchema = Schema & {
+  /** The name of the parameter, used in error messages and documentation. */
+  name: string;
+
+  /** Whether the argument can be omitted or `undefined`. Defaults to `false`. */
+  optional?: boolean;
+};
+
+/**
+ * Describes the parameters and return value of a function exposed to the
+ * sandbox, see {@link withSchema}.
+ */
+export type FunctionSchema = {
+  /** A description of what the function does, for documentation. */
+  description?: string;
+
+  /**
+   * The function's parameters, in order. Calls with more arguments than
+   * there are parameters are rejected. If omitted, arguments aren't checked.
+   */
+  params?: ParameterSchema[];
+
+  /** The schema of the value the function returns (or resolves to). */
+  returns?: Schema;
+};
+
+const functionSchemas = new WeakMap<object, FunctionSchema>();
+
+/**
+ * Attaches a schema to a function exposed to the sandbox. Calls from inside
+ * the sandbox with arguments that don't match the schema are rejected with a
+ * descriptive error before the function runs, and so are calls where the
+ * function returns a value that doesn't match.
+ *
+ * Works for functions in {@link CreateSandboxOptions.globals}, methods of
+ * exposed instances, and functions returned from host functions.
+ *
+ * @param fn - The function to describe.
+ * @param schema - Its parameters and return value.
+ * @returns The same function, for convenience.
+ *
+ * @example
+ * ```typescript
+ * const sandbox = await createSandbox({
+ *   globals: {
+ *     add: withSchema((a: number, b: number) => a + b, {
+ *       description: "Adds two numbers",
+ *       params: [
+ *         { name: "a", type: "number" },
+ *         { name: "b", type: "number" },
+ *       ],
+ *       returns: { type: "number" },
+ *     }),
+ *   },
+ * })
+ *
+ * await sandbox.run('await add("x", {})') // Error: Invalid arguments for add: a must be number, got string
+ * ```
+ */
+export function withSchema<T extends (...args: never[]) => unknown>(
+  fn: T,
+  schema: FunctionSchema,
+): T {
+  functionSchemas.set(fn, schema);
+  return fn;
+}
+
+/** Returns the schema a function was given with {@link withSchema}, if any. */
+export function getFunctionSchema(fn: object): FunctionSchema | undefined {
+  return functionSchemas.get(fn);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function matchesType(value: unknown, type: SchemaType): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * Checks a value against a schema, returning a description of the first
+ * mismatch, or `undefined` if it matches.
+ *
+ * @param path - How to refer to the value in the description.
+ */
+export function validate(value: unknown, schema: Schema, path: string): string | undefined {
+  if (schema.anyOf && !schema.anyOf.some((option) => !validate(value, option, path))) {
+    return `${path} doesn't match any of the allowed schemas`;
+  }
+  if (schema.type !== undefined) {
+    const types = [schema.type].flat();
+    if (!types.some((type) => matchesType(value, type))) {
+      return `${path} must be ${types.join(" or ")}, got ${typeOf(value)}`;
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    const options = schema.enum.map((option) => JSON.stringify(option));
+    return `${path} must be one of ${options.join(", ")}`;
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return `${path} must be at least ${schema.minimum}`;
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return `${path} must be at most ${schema.maximum}`;
+    }
+  } else if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return `${path} must be at least ${schema.minLength} characters long`;
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return `${path} must be at most ${schema.maxLength} characters long`;
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+      return `${path} must match the pattern ${schema.pattern}`;
+    }
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return `${path} must have at least ${schema.minItems} items`;
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return `${path} must have at most ${schema.maxItems} items`;
+    }
+    if (schema.items) {
+      for (const [i, item] of value.entries()) {
+        const error = validate(item, schema.items, `${path}[${i}]`);
+        if (error) {
+          return error;
+        }
+      }
+    }
+  } else if (typeof value === "object" && value !== null) {
+    const record = value as Record<string, unknown>;
+    const constrainsProperties =
+      schema.properties !== undefined ||
+      schema.required !== undefined ||
+      schema.additionalProperties !== undefined;
+    if (constrainsProperties && !isPlainObject(record)) {
+      // Only own properties are checked, so inherited ones could get past
+      return `${path} must be a plain object`;
+    }
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(record, key) || record[key] === undefined) {
+        return `${path}.${key} is required`;
+      }
+    }
+    const properties = schema.properties ?? {};
+    for (const [key, item] of Object.entries(record)) {
+      if (item === undefined) {
+        // Treated as missing, like JSON would
+        continue;
+      }
+      const propertySchema = Object.hasOwn(properties, key)
+        ? properties[key]
+        : schema.additionalProperties;
+      if (propertySchema === false) {
+        return `${path}.${key} is not allowed`;
+      }
+      if (typeof propertySchema === "object") {
+        const error = validate(item, propertySchema, `${path}.${key}`);
+        if (error) {
+          return error;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks the arguments of a call against a function's schema, returning a
+ * description of the first mismatch, or `undefined` if they match.
+ */
+export function validateArguments(args: unknown[], schema: FunctionSchema): string | undefined {
+  const params = schema.params;
+  if (!params) {
+    return undefined;
+  }
+  if (args.length > params.length) {
+    return `expected at most ${params.length} arguments, got ${args.length}`;
+  }
+  for (const [i, param] of params.entries()) {
+    if (args[i] === undefined) {
+      if (!param.optional) {
+        return `${param.name} is required`;
+      }
+      continue;
+    }
+    const error = validate(args[i], param, param.name);
+    if (error) {
+      return error;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,104 @@
+/**
+ * A source map in the standard (version 3) format. Only `mappings` is used,
+ * and every mapping is assumed to point into the original code.
+ */
+export type SourceMap = {
+  version: number;
+  mappings: string;
+};
+
+/** A mapping from a generated column to a 0-based position in the original code. */
+type Segment = { column: number; sourceLine: number; sourceColumn: number };
+
+const base64Chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = base64Chars.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+/** Decodes the `mappings` of a source map into segments for each generated line. */
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  for (const line of mappings.split(";")) {
+    const segments: Segment[] = [];
+    let column = 0;
+    for (const segment of line.split(",")) {
+      const values = decodeVlq(segment);
+      if (values.length === 0) {
+        continue;
+      }
+      column += values[0];
+      if (values.length >= 4) {
+        sourceLine += values[2];
+        sourceColumn += values[3];
+        segments.push({ column, sourceLine, sourceColumn });
+      }
+    }
+    lines.push(segments);
+  }
+  return lines;
+}
+
+/** A 1-based line and column. */
+export type Location = { line: number; column: number };
+
+/**
+ * Creates a function that maps a location in generated code back to the
+ * original code, or returns `undefined` if the location isn't mapped.
+ *
+ * @param map - The source map of the generated code. Without one, locations
+ * are only adjusted for `offset`.
+ * @param offset - Where the generated code starts within the script that was
+ * actually evaluated, as 0-based line and column.
+ */
+export function createLocationMapper(
+  map: SourceMap | string | undefined,
+  offset = { line: 0, column: 0 },
+): (location: Location) => Location | undefined {
+  const lines = map && decodeMappings((typeof map === "string" ? JSON.parse(map) : map).mappings);
+
+  return (location) => {
+    const line = location.line - 1 - offset.line;
+    const column = Math.max(0, location.column - 1 - (line === 0 ? offset.column : 0));
+    if (!lines) {
+      return line >= 0 ? { line: line + 1, column: column + 1 } : undefined;
+    }
+
+    // Use the closest segment at or before the column
+    const segment = lines[line]?.findLast((segment) => segment.column <= column);
+    return segment && { line: segment.sourceLine + 1, column: segment.sourceColumn + 1 };
+  };
+}
+
+/**
+ * Rewrites the locations in an error stack that refer to `sourceUrl`, the name
+ * generated code was given with `//# sourceURL`, using `mapLocation`.
+ */
+export function mapStackLocations(
+  stack: string,
+  sourceUrl: string,
+  mapLocation: (location: Location) => Location | undefined,
+): string {
+  const escapedUrl = sourceUrl.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const pattern = new RegExp(`${escapedUrl}:(\\d+):(\\d+)`, "g");
+  return stack.replace(pattern, (match, line: string, column: string) => {
+    const mapped = mapLocation({ line: Number(line), column: Number(column) });
+    return mapped ? `${sourceUrl}:${mapped.line}:${mapped.column}` : match;
+  });
+}
@@ -0,0 +1,59 @@
+import { type Token, tokenize } from "./lexer";
+
+/** A syntax error found by {@link findSyntaxError}, with a 1-based location if known. */
+export type SyntaxErrorInfo = {
+  message: string;
+  line?: number;
+  column?: number;
+};
+
+/** Converts an offset in `code` to a 1-based line and column. */
+function toLocation(code: string, offset: number) {
+  const lines = code.slice(0, offset).split(/\r\n|[\n\r\u2028\u2029]/);
+  // biome-ignore lint/style/noNonNullAssertion: split always returns at least one item
+  return { line: lines.length, column: lines.at(-1)!.length + 1 };
+}
+
+/**
+ * Finds the syntax error in `code`, if any.
+ *
+ * JavaScript engines don't report where a syntax error is, so this searches
+ * for the shortest prefix of the code, cut between tokens, that fails to parse
+ * with the same message as the whole. Its last token is where parsing failed.
+ *
+ * @param parse - Tries to parse code, returning the message of the syntax
+ * error if it fails.
+ */
+export async function findSyntaxError(
+  code: string,
+  parse: (code: string) => Promise<string | undefined>,
+): Promise<SyntaxErrorInfo | undefined> {
+  const message = await parse(code);
+  if (message === undefined) {
+    return undefined;
+  }
+  if (/end of input/i.test(message)) {
+    return { message, ...toLocation(code, code.length) };
+  }
+
+  let tokens: Token[];
+  try {
+    tokens = tokenize(code);
+  } catch {
+    return { message };
+  }
+
+  let low = 0;
+  let high = tokens.length - 1;
+  let found: Token | undefined;
+  while (low <= high) {
+    const mid = (low + high) >>> 1;
+    if ((await parse(code.slice(0, tokens[mid].end))) === message) {
+      found = tokens[mid];
+      high = mid - 1;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return found ? { message, ...toLocation(code, found.start) } : { message };
+}
@@ -0,0 +1,105 @@
+// Limits how precisely sandboxed code can measure time, which Spectre-style
+// and cache-timing attacks and CPU fingerprinting depend on. Installed by the
+// worker before any code runs, after deterministic mode if both are enabled.
+
+import { removePerformanceTimeline, replaceWallClock } from "./deterministic";
+
+/**
+ * Options for {@link CreateSandboxOptions.hardenTiming}.
+ */
+export type TimingOptions = {
+  /**
+   * The resolution of `performance.now()`, `Date`, `Intl.DateTimeFormat`,
+   * `Temporal.Now`, event timestamps and timer delays, in milliseconds.
+   *
+   * Defaults to `1`.
+   */
+  resolution?: number;
+
+  /**
+   * Whether to randomize where clocks round up to the next multiple of
+   * {@link resolution}, so that the exact moment a clock ticks can't be used
+   * to measure time more precisely. Clocks still never go backwards.
+   *
+   * Defaults to `true`.
+   */
+  jitter?: boolean;
+};
+
+/** {@link TimingOptions} with defaults applied, as sent to the worker. */
+export type TimingConfig = Required<TimingOptions>;
+
+/** Hashes a bucket number with a secret into a 32-bit integer. */
+function hash(bucket: number, secret: number): number {
+  let h = Math.imul((bucket >>> 0) ^ secret, 0x85ebca6b);
+  h ^= Math.floor(bucket / 2 ** 32) >>> 0;
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/** Returns a function that rounds times to a multiple of `resolution`. */
+function createClamp({ resolution, jitter }: TimingConfig): (time: number) => number {
+  // From Math.random(), so that it's seeded in deterministic mode
+  const secret = (Math.random() * 2 ** 32) >>> 0;
+  return (time) => {
+    const bucket = Math.floor(time / resolution);
+    const lower = bucket * resolution;
+    if (!jitter) {
+      return lower;
+    }
+    // Round up past a threshold that's random but fixed for each bucket, so
+    // that the clock stays monotonic
+    const threshold = (hash(bucket, secret) / 2 ** 32) * resolution;
+    return time - lower >= threshold ? lower + resolution : lower;
+  };
+}
+
+/**
+ * Coarsens and jitters the clocks inside the worker, and rounds timer delays
+ * up to the same resolution. The performance timeline, which has clocks of its
+ * own, is removed.
+ */
+export function hardenTiming(config: TimingConfig) {
+  const clamp = createClamp(config);
+
+  const realDateNow = Date.now;
+  replaceWallClock(() => clamp(realDateNow()));
+  removePerformanceTimeline();
+
+  if (typeof performance !== "undefined") {
+    const performanceProto = Object.getPrototypeOf(performance);
+    const realNow = performance.now.bind(performance);
+    const timeOrigin = Math.floor(performance.timeOrigin / config.resolution) * config.resolution;
+    Object.defineProperty(performanceProto, "now", {
+      configurable: true,
+      writable: true,
+      value: () => clamp(realNow()),
+    });
+    Object.defineProperty(performanceProto, "timeOrigin", {
+      configurable: true,
+      get: () => timeOrigin,
+    });
+  }
+
+  if (typeof Event !== "undefined") {
+    // biome-ignore lint/style/noNonNullAssertion: timeStamp is a standard getter
+    const timeStamp = Object.getOwnPropertyDescriptor(Event.prototype, "timeStamp")!;
+    Object.defineProperty(Event.prototype, "timeStamp", {
+      configurable: true,
+      get(this: Event) {
+        return clamp(timeStamp.get?.call(this));
+      },
+    });
+  }
+
+  const roundDelay = (delay: unknown) =>
+    Math.ceil(Math.max(0, Number(delay) || 0) / config.resolution) * config.resolution;
+  const realSetTimeout = globalThis.setTimeout;
+  const realSetInterval = globalThis.setInterval;
+  Object.assign(globalThis, {
+    setTimeout: (callback: TimerHandler, delay?: number, ...args: unknown[]) =>
+      realSetTimeout(callback, roundDelay(delay), ...args),
+    setInterval: (callback: TimerHandler, delay?: number, ...args: unknown[]) =>
+      realSetInterval(callback, roundDelay(delay), ...args),
+  });
+}
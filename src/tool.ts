@@ -0,0 +1,234 @@
+import { type ConsoleEntry, formatValue, toJsonValue } from "./console";
+import { generateDeclarations } from "./declarations";
+import {
+  SandboxAbortedError,
+  SandboxGuestError,
+  SandboxSyntaxError,
+  SandboxTimeoutError,
+} from "./errors";
+import type { ExecutionOptions, Sandbox } from "./host";
+import { type Schema, validate } from "./schema";
+
+/**
+ * Options for {@link createCodeTool}.
+ */
+export type CodeToolOptions = {
+  /** The name of the tool. Defaults to `"run_javascript"`. */
+  name?: string;
+
+  /**
+   * The description of the tool given to the model. Defaults to a description
+   * of how code is run, which doesn't say whether the sandbox can reach the
+   * network, since that depends on its `fetch` and `contentSecurityPolicy`
+   * options.
+   */
+  description?: string;
+
+  /**
+   * The globals the sandbox was created with. If given, they're described to
+   * the model in the tool's description, see {@link generateDeclarations}.
+   */
+  globals?: Record<string, unknown>;
+
+  /**
+   * Maximum length in characters of the result given to the model. Longer
+   * results keep their beginning and end, with the middle cut out.
+   *
+   * Defaults to `10000`.
+   */
+  maxResultLength?: number;
+};
+
+/**
+ * The result of {@link CodeTool.handle}, to send back to the model.
+ */
+export type CodeToolResult = {
+  /** A transcript of the console output and the result or error of the code. */
+  content: string;
+
+  /** Whether the code threw an error or timed out. */
+  isError: boolean;
+};
+
+/**
+ * A tool for AI agents that runs JavaScript in a sandbox, created with
+ * {@link createCodeTool}.
+ *
+ * The tool itself has the shape of an MCP tool definition, with a `name`,
+ * `description` and `inputSchema`.
+ */
+export type CodeTool = {
+  name: string;
+  description: string;
+
+  /** The JSON schema of the tool's input, an object with the `code` to run. */
+  inputSchema: Schema;
+
+  /** Returns the tool definition in the format of the OpenAI Chat Completions API. */
+  toOpenAI(): {
+    type: "function";
+    function: { name: string; description: string; parameters: Schema };
+  };
+
+  /** Returns the tool definition in the format of the Anthropic Messages API. */
+  toAnthropic(): { name: string; description: string; input_schema: Schema };
+
+  /**
+   * Runs the code of a tool call with {@link Sandbox.exec} and returns a
+   * transcript for the model. Errors thrown by the code, including results
+   * that can't be cloned, timeouts and calls cancelled with `signal` are
+   * reported in the transcript, while other errors, like the sandbox being
+   * disposed, are thrown.
+   *
+   * @param input - The input of the tool call, as an object or a JSON string.
+   * @param options - Execution options.
+   */
+  handle(input: unknown, options?: ExecutionOptions): Promise<CodeToolResult>;
+};
+
+const defaultDescription =
+  "Runs JavaScript in a sandbox and returns its console output and the value of its last " +
+  "expression, like a REPL. Top-level await and ES modules are supported. Variables " +
+  "assigned to globalThis persist between calls. There is no DOM.";
+
+function formatEntry(entry: ConsoleEntry): string {
+  const text = entry.args.map((arg) => formatValue(arg)).join(" ");
+  const prefix = entry.level === "log" || entry.level === "info" ? "" : `[${entry.level}] `;
+  return `${"  ".repeat(entry.depth)}${prefix}${text}`;
+}
+
+function formatResult(value: unknown): string {
+  return JSON.stringify(toJsonValue(value), null, 2) ?? formatValue(value);
+}
+
+/** Formats an error for the model, keeping only stack frames in its own code. */
+function formatError(err: SandboxGuestError): string {
+  if (err instanceof SandboxSyntaxError) {
+    const where = err.line !== undefined ? ` (line ${err.line}, column ${err.column})` : "";
+    return `${err.name}: ${err.message}${where}`;
+  }
+  const frames = (err.stack ?? "")
+    .split("\n")
+    .filter((line) => /^\s+at .*\brun-\d+:\d+:\d+/.test(line));
+  return [`${err.name}: ${err.message}`, ...frames].join("\n");
+}
+
+/** Cuts the middle out of text that's longer than `maxLength`. */
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const keep = Math.max(0, maxLength - 50);
+  const head = text.slice(0, Math.ceil(keep / 2));
+  const tail = text.slice(text.length - Math.floor(keep / 2));
+  return `${head}\n... (${text.length - head.length - tail.length} characters omitted) ...\n${tail}`;
+}
+
+/**
+ * Creates a code execution tool for AI agents, backed by a sandbox.
+ *
+ * Provides the tool definition in common function-calling formats and a
+ * handler that runs the code of a tool call and returns a transcript of its
+ * console output and result, formatted for the model. Create the sandbox with
+ * {@link CreateSandboxOptions.console} enabled to include console output.
+ *
+ * @param sandbox - The sandbox to run code in.
+ * @param opts - Tool options.
+ *
+ * @example
+ * ```typescript
+ * const sandbox = await createSandbox({ globals, console: true })
+ * const tool = createCodeTool(sandbox, { globals })
+ *
+ * const response = await openai.chat.completions.create({
+ *   model,
+ *   messages,
+ *   tools: [tool.toOpenAI()],
+ * })
+ * for (const call of response.choices[0].message.tool_calls ?? []) {
+ *   const { content } = await tool.handle(call.function.arguments)
+ *   messages.push({ role: "tool", tool_call_id: call.id, content })
+ * }
+ * ```
+ */
+export function createCodeTool(sandbox: Sandbox, opts?: CodeToolOptions): CodeTool {
+  const name = opts?.name ?? "run_javascript";
+  let description = opts?.description ?? defaultDescription;
+  if (opts?.globals) {
+    description += `\n\nThese globals are available:\n\n${generateDeclarations(opts.globals)}`;
+  }
+  const maxResultLength = opts?.maxResultLength ?? 10_000;
+
+  const inputSchema: Schema = {
+    type: "object",
+    properties: {
+      code: { type: "string", description: "The JavaScript code to run." },
+    },
+    required: ["code"],
+  };
+
+  return {
+    name,
+    description,
+    inputSchema,
+
+    toOpenAI() {
+      return { type: "function", function: { name, description, parameters: inputSchema } };
+    },
+
+    toAnthropic() {
+      return { name, description, input_schema: inputSchema };
+    },
+
+    async handle(input, options) {
+      if (typeof input === "string") {
+        try {
+          input = JSON.parse(input);
+        } catch {
+          return { content: "Error: The input is not valid JSON.", isError: true };
+        }
+      }
+      const inputError = validate(input, inputSchema, "input");
+      if (inputError) {
+        return { content: `Error: ${inputError}.`, isError: true };
+      }
+      const { code } = input as { code: string };
+
+      const sections: string[] = [];
+      let logs: ConsoleEntry[] = [];
+      let isError = false;
+      try {
+        const result = await sandbox.exec(code, options);
+        logs = result.logs;
+        if (result.value !== undefined) {
+          sections.push(`Result:\n${formatResult(result.value)}`);
+        }
+      } catch (err) {
+        isError = true;
+        if (
+          err instanceof SandboxGuestError ||
+          err instanceof SandboxTimeoutError ||
+          err instanceof SandboxAbortedError
+        ) {
+          logs = err.logs ?? [];
+        }
+        if (err instanceof SandboxGuestError) {
+          sections.push(`Error:\n${formatError(err)}`);
+        } else if (err instanceof SandboxTimeoutError || err instanceof SandboxAbortedError) {
+          const what = err instanceof SandboxTimeoutError ? "timed out" : "was cancelled";
+          const lost = err.stateLost ? " State from previous calls was lost." : "";
+          sections.push(`Error:\nThe code ${what}.${lost}`);
+        } else {
+          throw err;
+        }
+      }
+      if (logs.length > 0) {
+        sections.unshift(`Console output:\n${logs.map(formatEntry).join("\n")}`);
+      }
+      if (sections.length === 0) {
+        sections.push("The code ran without output or result.");
+      }
+      return { content: truncate(sections.join("\n\n"), maxResultLength), isError };
+    },
+  };
+}
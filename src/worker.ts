@@ -1,38 +1,102 @@
 import { createWorkerClient, createWorkerServer, type Service } from "shrimp-rpc";
 
+import { createConsole, toCloneable } from "./console";
+import { type DeterministicConfig, installDeterminism } from "./deterministic";
+import { deserializeResponse, type SerializedResponse, serializeRequest } from "./fetch";
+import { type ResolvedGlobalsPolicy, requiredGlobals } from "./globals";
 import type { HostService } from "./host";
+import { decodeFunctions, type Encoded, encodeFunctions } from "./marshal";
+import { findSyntaxError, type SyntaxErrorInfo } from "./syntax";
+import { hardenTiming, type TimingConfig } from "./timing";
+
+/** Options applied to a freshly spawned worker before any code runs. */
+export type WorkerConfig = {
+  /** Whether to replace `console` with one that forwards entries to the host. */
+  console: boolean;
+
+  /** Whether to replace `fetch` with one that sends requests through the host. */
+  fetch: boolean;
+
+  /** The globals to remove, or the only ones to keep. */
+  globalsPolicy: ResolvedGlobalsPolicy;
+
+  /** If set, makes random numbers and the clock reproducible. */
+  deterministic?: DeterministicConfig;
+
+  /** If set, limits the resolution of clocks and timers. */
+  timing?: TimingConfig;
+};
+
+/**
+ * A value thrown inside the worker, in a form that survives structured cloning
+ * with the details of errors intact.
+ */
+export type Thrown =
+  | {
+      type: "error";
+      name: string;
+      message: string;
+      stack?: string;
+      /** Only present if the error has a cause. */
+      cause?: Thrown;
+      /** Only present for an `AggregateError`. */
+      errors?: Thrown[];
+    }
+  | { type: "value"; value: unknown };
+
+/** The outcome of running guest code, which is returned rather than thrown. */
+export type Settled<T> = { ok: true; value: T } | { ok: false; thrown: Thrown };
 
 export type GuestService = Service<{
+  configure(params: WorkerConfig): void;
+
   setGlobals(params: {
     constants: Record<string, unknown>;
     methods: Record<string, unknown>;
+    getters: Record<string, unknown>;
   }): void;
 
-  run(params: { code: string }): void;
+  deleteGlobal(params: { name: string }): void;
+
+  snapshot(params: Record<string, never>): {
+    globals: Record<string, unknown>;
+    skipped: Array<{ name: string; reason: string }>;
+  };
+
+  restore(params: { globals: Record<string, unknown> }): void;
+
+  run(params: {
+    code: string;
+    runId: number;
+    sourceUrl?: string;
+    resultName?: string;
+  }): Settled<unknown>;
 
-  evaluate(params: { expr: string }): unknown;
+  evaluate(params: { expr: string; runId: number; sourceUrl?: string }): Settled<unknown>;
+
+  findSyntaxError(params: {
+    code: string;
+    kind: "module" | "expression";
+  }): SyntaxErrorInfo | undefined;
+
+  invokeCallback(params: { callbackId: number; params: Encoded }): Settled<Encoded>;
+
+  releaseCallback(params: { callbackId: number }): void;
 }>;
 
 const hostClient = createWorkerClient<HostService>(self);
 
 const AsyncFunction = (async () => {}).constructor as FunctionConstructor;
 
-// Block certain APIs that could be used for fingerprinting.
-// We must also delete getters from the prototype chain, otherwise sandboxed
-// code can recover them via Object.getOwnPropertyDescriptor on the prototype.
-const blocked = [
-  "name",
-  "navigator",
-  "location",
-  "requestAnimationFrame",
-
-  // We need to block nested Worker creation since a child Worker would get a
-  // fresh global scope with unblocked APIs.
-  "Worker",
-  "SharedWorker",
-];
-for (const prop of blocked) {
-  let proto = globalThis;
+// Taken before the globals policy can remove them, since the worker uses them
+// after sandboxed code starts running
+const { Request, structuredClone } = globalThis;
+
+/** Removes a property of an object, such as a global, including from its prototype chain. */
+function removeProperty(object: object, prop: string) {
+  // We must also delete getters from the prototype chain, otherwise sandboxed
+  // code can recover them via Object.getOwnPropertyDescriptor on the prototype.
+  let proto = object;
   while (proto) {
     if (Object.hasOwn(proto, prop)) {
       Object.defineProperty(proto, prop, {
@@ -43,10 +107,233 @@ for (const prop of blocked) {
   }
 }
 
+function applyGlobalsPolicy(policy: ResolvedGlobalsPolicy) {
+  if ("block" in policy) {
+    for (const prop of policy.block) {
+      if (!requiredGlobals.includes(prop)) {
+        removeProperty(globalThis, prop);
+      }
+    }
+    return;
+  }
+  const allowed = new Set([...policy.allow, ...requiredGlobals, "constructor"]);
+  // Object.prototype is shared with every object, so its members stay
+  for (let proto = globalThis; proto && proto !== Object.prototype; ) {
+    for (const prop of Object.getOwnPropertyNames(proto)) {
+      if (!allowed.has(prop)) {
+        removeProperty(globalThis, prop);
+      }
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+}
+
+// Globals that belong to the runtime or were provided by the host, as opposed
+// to ones defined by sandboxed code
+const runtimeGlobals = new Set(Object.getOwnPropertyNames(globalThis));
+const providedGlobals = new Set<string>();
+
+// Functions passed as arguments to host methods, which the host can call back
+// until it releases them.
+// biome-ignore lint/complexity/noBannedTypes: false positive
+const callbacksById = new Map<number, Function>();
+let nextCallbackId = 0;
+
+// biome-ignore lint/complexity/noBannedTypes: false positive
+function registerCallback(fn: Function, parent: object | undefined): number {
+  const callbackId = nextCallbackId++;
+  callbacksById.set(callbackId, parent ? fn.bind(parent) : fn);
+  return callbackId;
+}
+
+function createMethodProxy(methodId: number) {
+  return async (...params: unknown[]) => {
+    const result = await hostClient.call("onMethod", {
+      methodId,
+      runId: activeRunIds.at(-1),
+      params: encodeFunctions(params, registerCallback),
+    });
+    return decodeFunctions(result, reviveHandle);
+  };
+}
+
+// Host methods returned from host functions ("handles"). Unlike the methods in
+// the globals, these are released once sandboxed code no longer references
+// them, or explicitly by disposing the object that contained them.
+const handleRegistry = new FinalizationRegistry<number>((methodId) => {
+  hostClient.call("releaseMethod", { methodId }).catch(() => {});
+});
+const handleIdsByObject = new WeakMap<object, number[]>();
+
+function reviveHandle(methodId: number, parent: object | undefined) {
+  const proxy = createMethodProxy(methodId);
+  handleRegistry.register(proxy, methodId);
+
+  if (parent && !Array.isArray(parent)) {
+    let methodIds = handleIdsByObject.get(parent);
+    if (!methodIds) {
+      const ids: number[] = [];
+      Object.defineProperty(parent, Symbol.dispose, {
+        configurable: true,
+        value: () => {
+          for (const id of ids) {
+            hostClient.call("releaseMethod", { methodId: id }).catch(() => {});
+          }
+        },
+      });
+      handleIdsByObject.set(parent, ids);
+      methodIds = ids;
+    }
+    methodIds.push(methodId);
+  }
+  return proxy;
+}
+
+function serializeThrown(value: unknown, seen = new Set<unknown>()): Thrown {
+  if (!(value instanceof Error) || seen.has(value)) {
+    return { type: "value", value: toCloneable(value) };
+  }
+  seen.add(value);
+  const thrown: Thrown = {
+    type: "error",
+    name: value.name,
+    message: value.message,
+    stack: value.stack,
+  };
+  if ("cause" in value) {
+    thrown.cause = serializeThrown(value.cause, seen);
+  }
+  if (value instanceof AggregateError) {
+    thrown.errors = value.errors.map((error) => serializeThrown(error, seen));
+  }
+  return thrown;
+}
+
+/**
+ * Runs guest code, catching anything it throws. Errors are returned instead
+ * of thrown, since only their message would survive the trip to the host.
+ * Results that can't be cloned are reported the same way, rather than failing
+ * the reply.
+ */
+async function settle<T>(fn: () => Promise<T>): Promise<Settled<T>> {
+  try {
+    const value = await fn();
+    structuredClone(value);
+    return { ok: true, value };
+  } catch (err) {
+    return { ok: false, thrown: serializeThrown(err) };
+  }
+}
+
+/**
+ * Parses code as a module without running it, returning the message of any
+ * syntax error.
+ *
+ * Modules are only linked and evaluated once all of their imports resolve, so
+ * importing a specifier that never does stops the code's own imports from
+ * being loaded, let alone run. The leading throw is there in case it ever
+ * resolves. Identical code gets the same URL, so checking it again reuses the
+ * module instead of adding another to the module map.
+ */
+async function parseModule(code: string): Promise<string | undefined> {
+  const source = `import "slopjail-unresolvable";throw 0;${code}`;
+  try {
+    await import(`data:text/javascript;charset=utf-8,${encodeURIComponent(source)}`);
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return err.message;
+    }
+  }
+  return undefined;
+}
+
+/** Parses code as an expression for evaluate(), returning the message of any syntax error. */
+async function parseExpression(code: string): Promise<string | undefined> {
+  try {
+    new AsyncFunction(`"use strict";return(${code}\n)`);
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return err.message;
+    }
+  }
+  return undefined;
+}
+
+/** Names code in stack traces, so the host can map locations back to the original code. */
+function sourceUrlComment(sourceUrl: string | undefined) {
+  return sourceUrl ? `\n//# sourceURL=${sourceUrl}` : "";
+}
+
+// Calls to run() and evaluate() that are currently in progress, in the order
+// they started.
+const activeRunIds: number[] = [];
+
+// Fires pending virtual timers, which pause while no code is running
+let resumeTimers = () => {};
+
+async function trackRun<T>(runId: number, fn: () => Promise<T>): Promise<T> {
+  activeRunIds.push(runId);
+  resumeTimers();
+  try {
+    return await fn();
+  } finally {
+    activeRunIds.splice(activeRunIds.indexOf(runId), 1);
+  }
+}
+
 createWorkerServer<GuestService>(self, {
-  setGlobals({ constants, methods }) {
-    function injectMethods(methods: Record<string, unknown>, dest: Record<string, unknown>) {
-      for (const [key, value] of Object.entries(methods)) {
+  configure(config) {
+    // Installed before the policy is applied, so the policy can remove the
+    // replaced timers like it would the real ones
+    if (config.deterministic) {
+      resumeTimers = installDeterminism(config.deterministic, () => activeRunIds.length > 0);
+    }
+    if (config.timing) {
+      hardenTiming(config.timing);
+      // Shared memory lets a worker build its own high-resolution clock
+      removeProperty(globalThis, "SharedArrayBuffer");
+      removeProperty(Atomics, "waitAsync");
+    }
+    // Applied before the console and fetch() are installed, so they aren't removed
+    applyGlobalsPolicy(config.globalsPolicy);
+    if (config.console) {
+      globalThis.console = createConsole((entry) => {
+        const runId = activeRunIds.at(-1);
+        hostClient.call("onConsole", { ...entry, runId }).catch(() => {});
+      }) as Console;
+    }
+    if (config.fetch) {
+      globalThis.fetch = async (input, init) => {
+        const request = new Request(input, init);
+        request.signal.throwIfAborted();
+        const aborted = new Promise<never>((_, reject) => {
+          request.signal.addEventListener("abort", () => reject(request.signal.reason));
+        });
+        let response: SerializedResponse;
+        try {
+          response = await Promise.race([
+            hostClient.call("onFetch", await serializeRequest(request)),
+            aborted,
+          ]);
+        } catch (err) {
+          if (request.signal.aborted) {
+            throw err;
+          }
+          // Reject like the real fetch() does on network errors
+          throw new TypeError(err instanceof Error ? err.message : String(err));
+        }
+        return deserializeResponse(response);
+      };
+    }
+  },
+
+  setGlobals({ constants, methods, getters }) {
+    function inject(
+      tree: Record<string, unknown>,
+      dest: Record<string, unknown>,
+      define: (dest: Record<string, unknown>, key: string, methodId: number) => void,
+    ) {
+      for (const [key, value] of Object.entries(tree)) {
         if (typeof value === "object") {
           if (value) {
             // Merge into the existing constants subtree so sibling constants
@@ -56,28 +343,108 @@ createWorkerServer<GuestService>(self, {
               child = {};
               dest[key] = child;
             }
-            injectMethods(value as Record<string, unknown>, child);
+            inject(value as Record<string, unknown>, child, define);
           }
         } else if (typeof value === "number") {
-          dest[key] = (...params: unknown[]) => {
-            return hostClient.call("onMethod", { methodId: value, params });
-          };
+          define(dest, key, value);
         }
       }
     }
-    injectMethods(methods, constants);
+    inject(methods, constants, (dest, key, methodId) => {
+      dest[key] = createMethodProxy(methodId);
+    });
+    inject(getters, constants, (dest, key, methodId) => {
+      const proxy = createMethodProxy(methodId);
+      Object.defineProperty(dest, key, {
+        get: () => proxy(),
+        enumerable: true,
+        configurable: true,
+      });
+    });
 
     for (const [key, value] of Object.entries(constants)) {
       (globalThis as Record<string, unknown>)[key] = value;
+      providedGlobals.add(key);
+    }
+  },
+
+  deleteGlobal({ name }) {
+    delete (globalThis as Record<string, unknown>)[name];
+    providedGlobals.delete(name);
+  },
+
+  snapshot() {
+    const globals: Record<string, unknown> = {};
+    const skipped: Array<{ name: string; reason: string }> = [];
+    for (const name of Object.getOwnPropertyNames(globalThis)) {
+      if (runtimeGlobals.has(name) || providedGlobals.has(name)) {
+        continue;
+      }
+      // biome-ignore lint/style/noNonNullAssertion: name comes from getOwnPropertyNames
+      const desc = Object.getOwnPropertyDescriptor(globalThis, name)!;
+      if (!("value" in desc)) {
+        skipped.push({ name, reason: "Accessor properties can't be captured" });
+      } else if (typeof desc.value === "function") {
+        skipped.push({ name, reason: "Functions can't be captured" });
+      } else {
+        try {
+          structuredClone(desc.value);
+          globals[name] = desc.value;
+        } catch (err) {
+          skipped.push({ name, reason: err instanceof Error ? err.message : String(err) });
+        }
+      }
     }
+    return { globals, skipped };
   },
 
-  async run({ code }) {
-    await import(`data:text/javascript;charset=utf-8,${encodeURIComponent(code)}`);
+  restore({ globals }) {
+    for (const [name, value] of Object.entries(globals)) {
+      // Globals provided by the host take precedence
+      if (!providedGlobals.has(name)) {
+        (globalThis as Record<string, unknown>)[name] = value;
+      }
+    }
+  },
+
+  run({ code, runId, sourceUrl, resultName }) {
+    // Give each run a unique URL, otherwise running the same code again would
+    // reuse the module from before instead of evaluating it
+    const source = `${code}\n// run ${runId}${sourceUrlComment(sourceUrl)}`;
+    return settle(() =>
+      trackRun(runId, async () => {
+        const namespace = await import(
+          `data:text/javascript;charset=utf-8,${encodeURIComponent(source)}`
+        );
+        // Await the result like evaluate() does
+        return resultName ? await namespace[resultName] : undefined;
+      }),
+    );
+  },
+
+  evaluate({ expr, runId, sourceUrl }) {
+    return settle(() => {
+      const fn = new AsyncFunction(`"use strict";return(${expr}\n)${sourceUrlComment(sourceUrl)}`);
+      return trackRun(runId, () => fn());
+    });
+  },
+
+  findSyntaxError({ code, kind }) {
+    return findSyntaxError(code, kind === "module" ? parseModule : parseExpression);
+  },
+
+  async invokeCallback({ callbackId, params }) {
+    const callback = callbacksById.get(callbackId);
+    if (!callback) {
+      throw new Error("Callback has been released");
+    }
+    return settle(async () => {
+      const result = await callback(...(decodeFunctions(params, reviveHandle) as unknown[]));
+      return encodeFunctions(result, registerCallback);
+    });
   },
 
-  async evaluate({ expr }) {
-    const fn = new AsyncFunction(`"use strict";return(${expr})`);
-    return fn();
+  releaseCallback({ callbackId }) {
+    callbacksById.delete(callbackId);
   },
 });
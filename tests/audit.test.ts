@@ -0,0 +1,239 @@
+import { afterEach, describe, expect, test } from "vitest";
+
+import {
+  type AuditEvent,
+  createSandbox,
+  type Sandbox,
+  SandboxTimeoutError,
+  toJsonLine,
+} from "../src";
+import { catchReportedErrors } from "./testUtils";
+
+let sandbox: Sandbox;
+
+afterEach(() => {
+  sandbox?.dispose();
+});
+
+describe("audit", () => {
+  test("records runs and their results", async () => {
+    const events: AuditEvent[] = [];
+    sandbox = await createSandbox({ audit: (event) => events.push(event) });
+    await sandbox.exec("1 + 2");
+    expect(events).toEqual([
+      expect.objectContaining({ type: "run", method: "exec", code: "1 + 2", runId: 0 }),
+      expect.objectContaining({ type: "runEnd", runId: 0, ok: true, value: 3 }),
+    ]);
+  });
+
+  test("records errors", async () => {
+    const events: AuditEvent[] = [];
+    sandbox = await createSandbox({ audit: (event) => events.push(event) });
+    await expect(sandbox.evaluate("null.foo")).rejects.toThrow();
+    expect(events.at(-1)).toMatchObject({
+      type: "runEnd",
+      ok: false,
+      error: { name: "TypeError" },
+    });
+  });
+
+  test("records host calls", async () => {
+    const events: AuditEvent[] = [];
+    sandbox = await createSandbox({
+      globals: { math: { add: (a: number, b: number) => a + b } },
+      audit: (event) => events.push(event),
+    });
+    await sandbox.run("await math.add(1, 2)");
+    const calls = events.filter((event) => event.type.startsWith("hostCall"));
+    expect(calls).toEqual([
+      expect.objectContaining({ type: "hostCall", path: "math.add", args: [1, 2], runId: 0 }),
+      expect.objectContaining({ type: "hostCallEnd", path: "math.add", ok: true, value: 3 }),
+    ]);
+  });
+
+  test("records denied host calls", async () => {
+    const events: AuditEvent[] = [];
+    sandbox = await createSandbox({
+      globals: { remove: () => {} },
+      onHostCall: () => false,
+      audit: (event) => events.push(event),
+    });
+    await expect(sandbox.run("await remove()")).rejects.toThrow();
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "hostCallEnd",
+        path: "remove",
+        ok: false,
+        error: new Error("Call to remove was denied"),
+      }),
+    );
+  });
+
+  test("records calls to revoked and released functions", async () => {
+    const events: AuditEvent[] = [];
+    const remove = () => {};
+    sandbox = await createSandbox({
+      globals: { remove, open: () => ({ read: () => "data" }) },
+      audit: (event) => events.push(event),
+    });
+    sandbox.revoke(remove);
+    await expect(sandbox.run("await remove()")).rejects.toThrow("Function has been revoked");
+    await expect(
+      sandbox.run("const file = await open(); file[Symbol.dispose](); await file.read()"),
+    ).rejects.toThrow("Method has been released");
+    const calls = events.filter((event) => event.type.startsWith("hostCall"));
+    expect(calls).toEqual([
+      expect.objectContaining({ type: "hostCall", path: "remove", args: [] }),
+      expect.objectContaining({
+        type: "hostCallEnd",
+        path: "remove",
+        ok: false,
+        error: expect.objectContaining({ message: "Function has been revoked" }),
+      }),
+      expect.objectContaining({ type: "hostCall", path: "open" }),
+      expect.objectContaining({ type: "hostCallEnd", path: "open", ok: true }),
+      expect.objectContaining({ type: "hostCall", path: "" }),
+      expect.objectContaining({
+        type: "hostCallEnd",
+        path: "",
+        ok: false,
+        error: expect.objectContaining({ message: "Method has been released" }),
+      }),
+    ]);
+  });
+
+  test("records fetch requests", async () => {
+    const events: AuditEvent[] = [];
+    sandbox = await createSandbox({
+      fetch: { onRequest: () => true, fetch: async () => new Response("hello", { status: 201 }) },
+      audit: (event) => events.push(event),
+    });
+    await sandbox.run('await fetch("https://api.example.com/items", { method: "POST" })');
+    const requests = events.filter((event) => event.type.startsWith("fetch"));
+    expect(requests).toEqual([
+      expect.objectContaining({
+        type: "fetch",
+        fetchId: 0,
+        method: "POST",
+        url: "https://api.example.com/items",
+      }),
+      expect.objectContaining({
+        type: "fetchEnd",
+        fetchId: 0,
+        method: "POST",
+        url: "https://api.example.com/items",
+        duration: expect.any(Number),
+        ok: true,
+        status: 201,
+        size: 5,
+      }),
+    ]);
+  });
+
+  test("records denied fetch requests", async () => {
+    const events: AuditEvent[] = [];
+    sandbox = await createSandbox({
+      fetch: { onRequest: () => false },
+      audit: (event) => events.push(event),
+    });
+    await expect(sandbox.run('await fetch("https://api.example.com/")')).rejects.toThrow();
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "fetchEnd",
+        url: "https://api.example.com/",
+        ok: false,
+        error: new TypeError("Request to https://api.example.com/ was denied"),
+      }),
+    );
+  });
+
+  test("records console output", async () => {
+    const events: AuditEvent[] = [];
+    sandbox = await createSandbox({ audit: (event) => events.push(event) });
+    const { logs } = await sandbox.run("console.log('hello')");
+    expect(logs).toHaveLength(1);
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "console",
+        entry: expect.objectContaining({ args: ["hello"], runId: 0 }),
+      }),
+    );
+  });
+
+  test("records timeouts and disposal", async () => {
+    const events: AuditEvent[] = [];
+    sandbox = await createSandbox({
+      timeoutBehavior: "dispose",
+      audit: (event) => events.push(event),
+    });
+    await expect(sandbox.run("while (true) {}", { timeout: 100 })).rejects.toThrow();
+    expect(events.map((event) => event.type)).toEqual(["run", "timeout", "dispose", "runEnd"]);
+  });
+
+  test("errors thrown by the callback don't affect the sandbox", async () => {
+    const errors = await catchReportedErrors(async () => {
+      sandbox = await createSandbox({
+        globals: { add: (a: number, b: number) => a + b },
+        audit: () => {
+          throw new Error("audit failed");
+        },
+      });
+      expect(await sandbox.evaluate("add(1, 2)")).toBe(3);
+      sandbox.dispose();
+    });
+    expect(errors).toContainEqual(new Error("audit failed"));
+  });
+
+  test("timeouts still restart the sandbox if the callback throws", async () => {
+    const errors = await catchReportedErrors(async () => {
+      sandbox = await createSandbox({
+        audit: (event) => {
+          if (event.type === "timeout") {
+            throw new Error("audit failed");
+          }
+        },
+      });
+      await expect(sandbox.run("while (true) {}", { timeout: 100 })).rejects.toThrow(
+        SandboxTimeoutError,
+      );
+      expect(await sandbox.evaluate("1 + 1")).toBe(2);
+    });
+    expect(errors).toEqual([new Error("audit failed")]);
+  });
+});
+
+describe("toJsonLine", () => {
+  test("serializes events as a line of JSON", () => {
+    const line = toJsonLine({
+      type: "hostCallEnd",
+      timestamp: 0,
+      callId: 0,
+      path: "fn",
+      duration: 1,
+      ok: false,
+      error: new TypeError("bad"),
+    });
+    expect(line.endsWith("\n")).toBe(true);
+    expect(line.slice(0, -1)).not.toContain("\n");
+    expect(JSON.parse(line)).toMatchObject({ error: { name: "TypeError", message: "bad" } });
+  });
+
+  test("represents values JSON can't", () => {
+    const value: Record<string, unknown> = { big: 1n, fn: () => {}, set: new Set([1]) };
+    value.self = value;
+    const line = toJsonLine({
+      type: "runEnd",
+      timestamp: 0,
+      runId: 0,
+      duration: 0,
+      ok: true,
+      value,
+    });
+    expect(JSON.parse(line).value).toEqual({
+      big: "1n",
+      fn: "[Function: fn]",
+      set: [1],
+      self: "[Circular]",
+    });
+  });
+});
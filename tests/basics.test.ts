@@ -1,7 +1,20 @@
 import { afterEach, describe, expect, test, vi } from "vitest";
 
-import { createSandbox, type Sandbox } from "../src";
-import { expression } from "./testUtils";
+import {
+  createSandbox,
+  exposeInstance,
+  type FunctionSchema,
+  getAbortSignal,
+  type Sandbox,
+  SandboxAbortedError,
+  SandboxDisposedError,
+  SandboxGuestError,
+  SandboxRestartedError,
+  SandboxSyntaxError,
+  SandboxTimeoutError,
+  withSchema,
+} from "../src";
+import { catchReportedErrors, expression, isBrowser } from "./testUtils";
 
 let sandbox: Sandbox;
 
@@ -66,6 +79,13 @@ describe("code execution", () => {
     expect(await expression(sandbox, "3")).toBe(3);
   });
 
+  test("runs the same code again", async () => {
+    sandbox = await createSandbox();
+    await sandbox.run("globalThis.__counter = (globalThis.__counter ?? 0) + 1");
+    await sandbox.run("globalThis.__counter = (globalThis.__counter ?? 0) + 1");
+    expect(await sandbox.evaluate("globalThis.__counter")).toBe(2);
+  });
+
   test("preserves global state across runs", async () => {
     sandbox = await createSandbox();
     await sandbox.run("globalThis.__counter = 1");
@@ -98,7 +118,7 @@ describe("code execution", () => {
   test("propagates serialization errors", async () => {
     sandbox = await createSandbox();
     await expect(expression(sandbox, 'new URL("https://test.invalid")')).rejects.toThrow(
-      "not be cloned",
+      isBrowser ? "not be cloned" : "Cannot clone",
     );
   });
 
@@ -108,6 +128,181 @@ describe("code execution", () => {
   });
 });
 
+describe("errors", () => {
+  test("guest errors keep their name and message", async () => {
+    sandbox = await createSandbox();
+    const err = await sandbox.run('throw new TypeError("bad input")').catch((err) => err);
+    expect(err).toBeInstanceOf(SandboxGuestError);
+    expect(err.name).toBe("TypeError");
+    expect(err.message).toBe("bad input");
+  });
+
+  test("guest error stacks point into the submitted code", async () => {
+    sandbox = await createSandbox();
+    const err = await sandbox.run("const a = 1\n\nnull.foo").catch((err) => err);
+    expect(err.stack).toMatch(/run-\d+:3:\d+/);
+    await expect(sandbox.evaluate("null.foo")).rejects.toHaveProperty(
+      "stack",
+      expect.stringMatching(/run-\d+:1:\d+/),
+    );
+  });
+
+  test("guest errors keep their cause", async () => {
+    sandbox = await createSandbox();
+    const err = await sandbox
+      .run('throw new Error("outer", { cause: new RangeError("inner") })')
+      .catch((err) => err);
+    expect(err.cause).toBeInstanceOf(SandboxGuestError);
+    expect(err.cause.name).toBe("RangeError");
+    expect(err.cause.message).toBe("inner");
+  });
+
+  test("guest errors keep aggregated errors", async () => {
+    sandbox = await createSandbox();
+    const err = await sandbox
+      .run('throw new AggregateError([new Error("one"), "two"], "many")')
+      .catch((err) => err);
+    expect(err.name).toBe("AggregateError");
+    expect(err.errors).toHaveLength(2);
+    expect(err.errors[0]).toBeInstanceOf(SandboxGuestError);
+    expect(err.errors[0].message).toBe("one");
+    expect(err.errors[1]).toBe("two");
+  });
+
+  test("values other than errors are wrapped", async () => {
+    sandbox = await createSandbox();
+    const err = await sandbox.run('throw "oops"').catch((err) => err);
+    expect(err).toBeInstanceOf(SandboxGuestError);
+    expect(err.message).toBe('Uncaught "oops"');
+    expect(err.cause).toBe("oops");
+  });
+
+  test("syntax errors have a location in the submitted code", async () => {
+    sandbox = await createSandbox();
+    const err = await sandbox.run("const x = 1\nconst y = ;").catch((err) => err);
+    expect(err).toBeInstanceOf(SandboxSyntaxError);
+    expect(err.name).toBe("SyntaxError");
+    expect([err.line, err.column]).toEqual([2, 11]);
+  });
+
+  test("locating syntax errors doesn't run imports", async () => {
+    sandbox = await createSandbox();
+    // The search for the error parses the first two lines on their own
+    const code = 'import "data:text/javascript,globalThis.__imported = true"\nx;\nconst y = ;';
+    await expect(sandbox.run(code)).rejects.toThrow(SandboxSyntaxError);
+    expect(await sandbox.evaluate("globalThis.__imported")).toBeUndefined();
+  });
+
+  test("syntax errors in expressions have a location", async () => {
+    sandbox = await createSandbox();
+    const result = sandbox.evaluate("1 + * 2");
+    await expect(result).rejects.toThrow(SandboxSyntaxError);
+    await expect(result).rejects.toMatchObject({ line: 1, column: 5 });
+  });
+
+  test("syntax errors thrown at runtime aren't syntax errors in the code", async () => {
+    sandbox = await createSandbox();
+    const err = await sandbox.run('JSON.parse("{")').catch((err) => err);
+    expect(err).toBeInstanceOf(SandboxGuestError);
+    expect(err).not.toBeInstanceOf(SandboxSyntaxError);
+    expect(err.name).toBe("SyntaxError");
+  });
+
+  test("errors thrown by callbacks reach the host", async () => {
+    let error: unknown;
+    sandbox = await createSandbox({
+      globals: {
+        call: async (fn: () => Promise<void>) => {
+          await fn().catch((err) => {
+            error = err;
+          });
+        },
+      },
+    });
+    await sandbox.run('await call(() => { throw new RangeError("from callback") })');
+    expect(error).toBeInstanceOf(SandboxGuestError);
+    expect((error as Error).name).toBe("RangeError");
+  });
+
+  test("errors keep console output logged before them", async () => {
+    sandbox = await createSandbox({ console: true });
+    await expect(
+      sandbox.run('console.log("before"); throw new Error("boom")'),
+    ).rejects.toMatchObject({
+      logs: [expect.objectContaining({ args: ["before"] })],
+    });
+  });
+
+  test("using a disposed sandbox throws SandboxDisposedError", async () => {
+    sandbox = await createSandbox();
+    sandbox.dispose();
+    await expect(sandbox.run("1")).rejects.toThrow(SandboxDisposedError);
+  });
+});
+
+describe("exec", () => {
+  test("returns the value of the last expression", async () => {
+    sandbox = await createSandbox();
+    const { value } = await sandbox.exec(`
+      const items = [1, 2, 3]
+      let total = 0
+      for (const item of items) {
+        total += item
+      }
+      total * 2
+    `);
+    expect(value).toBe(12);
+  });
+
+  test("supports imports and top-level await", async () => {
+    sandbox = await createSandbox({ modules: { answer: "export default 42" } });
+    const { value } = await sandbox.exec(`
+      import answer from "answer"
+      await Promise.resolve(answer)
+    `);
+    expect(value).toBe(42);
+  });
+
+  test("awaits a promise as the last expression", async () => {
+    sandbox = await createSandbox();
+    expect((await sandbox.exec("Promise.resolve(7)")).value).toBe(7);
+  });
+
+  test("handles expressions spanning lines and semicolons", async () => {
+    sandbox = await createSandbox();
+    expect((await sandbox.exec("const x = 1\n+ 2;\nx;")).value).toBe(3);
+    expect((await sandbox.exec("const o = {\n  a: 1,\n}\no.a")).value).toBe(1);
+    expect((await sandbox.exec("if (true) {\n  1\n}\n'after'")).value).toBe("after");
+    expect((await sandbox.exec("({ a: 1 })")).value).toEqual({ a: 1 });
+  });
+
+  test("returns undefined without a trailing expression", async () => {
+    sandbox = await createSandbox();
+    expect((await sandbox.exec("const x = 1")).value).toBeUndefined();
+    expect((await sandbox.exec("function f() {}")).value).toBeUndefined();
+    expect((await sandbox.exec("if (true) { 1 }")).value).toBeUndefined();
+  });
+
+  test("returns a fresh value each time", async () => {
+    sandbox = await createSandbox();
+    await sandbox.run("globalThis.__counter = 0");
+    expect((await sandbox.exec("++globalThis.__counter")).value).toBe(1);
+    expect((await sandbox.exec("++globalThis.__counter")).value).toBe(2);
+  });
+
+  test("captures console output", async () => {
+    sandbox = await createSandbox({ console: true });
+    const { value, logs } = await sandbox.exec('console.log("hi")\n"done"');
+    expect(value).toBe("done");
+    expect(logs.map((entry) => entry.args)).toEqual([["hi"]]);
+  });
+
+  test("propagates errors", async () => {
+    sandbox = await createSandbox();
+    await expect(sandbox.exec('throw new Error("boom")')).rejects.toThrow("boom");
+  });
+});
+
 describe("globals", () => {
   test("exposes primitive constants", async () => {
     sandbox = await createSandbox({
@@ -264,6 +459,391 @@ describe("globals", () => {
   });
 });
 
+describe("snapshots", () => {
+  test("captures globals defined by sandboxed code", async () => {
+    sandbox = await createSandbox({ globals: { provided: 1, fn: () => 1 } });
+    await sandbox.run(`
+      globalThis.counter = 2
+      globalThis.data = { list: [1, 2], when: new Date(0) }
+      globalThis.helper = () => 3
+      globalThis.closure = { run() {} }
+    `);
+    const snapshot = await sandbox.snapshot();
+    expect(snapshot.globals).toEqual({
+      counter: 2,
+      data: { list: [1, 2], when: new Date(0) },
+    });
+    expect(snapshot.skipped.map((entry) => entry.name).sort()).toEqual(["closure", "helper"]);
+  });
+
+  test("restores a snapshot into a new sandbox", async () => {
+    sandbox = await createSandbox();
+    await sandbox.run("globalThis.counter = 41");
+    const snapshot = await sandbox.snapshot();
+    sandbox.dispose();
+
+    sandbox = await createSandbox({ restore: snapshot });
+    await sandbox.run("globalThis.counter += 1");
+    expect(await expression(sandbox, "counter")).toBe(42);
+  });
+
+  test("provided globals take precedence over restored ones", async () => {
+    sandbox = await createSandbox({
+      restore: { globals: { a: "restored" }, skipped: [] },
+      globals: { a: "provided" },
+    });
+    expect(await expression(sandbox, "a")).toBe("provided");
+  });
+
+  test("snapshots survive structured cloning", async () => {
+    sandbox = await createSandbox();
+    await sandbox.run("globalThis.nested = { map: new Map([[1, 'one']]) }");
+    const snapshot = structuredClone(await sandbox.snapshot());
+    sandbox.dispose();
+
+    sandbox = await createSandbox({ restore: snapshot });
+    expect(await expression(sandbox, "nested.map.get(1)")).toBe("one");
+  });
+});
+
+describe("changing globals", () => {
+  test("setGlobals adds new globals and keeps state", async () => {
+    sandbox = await createSandbox({ globals: { a: 1 } });
+    await sandbox.run("globalThis.__counter = 1");
+    await sandbox.setGlobals({ b: 2, add: (x: number, y: number) => x + y });
+    expect(await expression(sandbox, "await add(a, b)")).toBe(3);
+    expect(await expression(sandbox, "globalThis.__counter")).toBe(1);
+  });
+
+  test("setGlobals replaces existing globals wholesale", async () => {
+    sandbox = await createSandbox({
+      globals: { tools: { one: () => 1, version: 1 } },
+    });
+    await sandbox.setGlobals({ tools: { two: () => 2 } });
+    expect(await expression(sandbox, "await tools.two()")).toBe(2);
+    expect(await expression(sandbox, "typeof tools.one")).toBe("undefined");
+    expect(await expression(sandbox, "typeof tools.version")).toBe("undefined");
+  });
+
+  test("replaced functions are revoked", async () => {
+    sandbox = await createSandbox({ globals: { fn: () => "old" } });
+    await sandbox.run("globalThis.__old = fn");
+    await sandbox.setGlobals({ fn: () => "new" });
+    expect(await expression(sandbox, "await fn()")).toBe("new");
+    await expect(sandbox.evaluate("__old()")).rejects.toThrow("Function has been revoked");
+  });
+
+  test("deleteGlobal removes a global and revokes its functions", async () => {
+    sandbox = await createSandbox({ globals: { search: () => "results", keep: 1 } });
+    await sandbox.run("globalThis.__search = search");
+    await sandbox.deleteGlobal("search");
+    expect(await expression(sandbox, "typeof search")).toBe("undefined");
+    expect(await expression(sandbox, "keep")).toBe(1);
+    await expect(sandbox.evaluate("__search()")).rejects.toThrow("Function has been revoked");
+  });
+
+  test("revoke keeps the name but rejects calls", async () => {
+    const remove = vi.fn();
+    const read = () => "contents";
+    sandbox = await createSandbox({ globals: { files: { read, remove } } });
+    sandbox.revoke(remove);
+    expect(await expression(sandbox, "typeof files.remove")).toBe("function");
+    await expect(sandbox.evaluate("files.remove('/report.pdf')")).rejects.toThrow(
+      "Function has been revoked",
+    );
+    expect(remove).not.toHaveBeenCalled();
+    expect(await expression(sandbox, "await files.read()")).toBe("contents");
+  });
+
+  test("revoke works on handles", async () => {
+    const write = vi.fn();
+    sandbox = await createSandbox({ globals: { open: () => ({ write }) } });
+    await sandbox.run("globalThis.__file = await open()");
+    sandbox.revoke(write);
+    await expect(sandbox.evaluate("__file.write('x')")).rejects.toThrow(
+      "Function has been revoked",
+    );
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  test("revoked functions stay revoked when returned again", async () => {
+    const write = vi.fn();
+    const file = { write };
+    sandbox = await createSandbox({ globals: { open: () => file } });
+    sandbox.revoke(write);
+    await expect(sandbox.evaluate("(await open()).write('x')")).rejects.toThrow(
+      "Function has been revoked",
+    );
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  test("changes survive a restart", async () => {
+    sandbox = await createSandbox({ globals: { a: 1, b: 2 } });
+    await sandbox.setGlobals({ c: 3 });
+    await sandbox.deleteGlobal("a");
+    await expect(sandbox.run("while (true) {}", { timeout: 100 })).rejects.toThrow(
+      SandboxTimeoutError,
+    );
+    expect(await expression(sandbox, "typeof a")).toBe("undefined");
+    expect(await expression(sandbox, "b + c")).toBe(5);
+  });
+
+  test("setGlobals after dispose rejects", async () => {
+    sandbox = await createSandbox();
+    sandbox.dispose();
+    await expect(sandbox.setGlobals({ a: 1 })).rejects.toThrow("Sandbox has been disposed");
+  });
+});
+
+describe("class instances", () => {
+  class Base {
+    name = "base";
+
+    greet() {
+      return `hello from ${this.name}`;
+    }
+  }
+
+  class Client extends Base {
+    name = "client";
+    #secret = "hunter2";
+
+    get secretLength() {
+      return this.#secret.length;
+    }
+
+    add(a: number, b: number) {
+      return a + b;
+    }
+  }
+
+  test("exposes prototype methods bound to the instance", async () => {
+    sandbox = await createSandbox({ globals: { client: exposeInstance(new Client()) } });
+    expect(await expression(sandbox, "await client.add(2, 3)")).toBe(5);
+    expect(await expression(sandbox, "await client.greet()")).toBe("hello from client");
+    expect(await expression(sandbox, "client.name")).toBe("client");
+  });
+
+  test("does not expose getters by default", async () => {
+    sandbox = await createSandbox({ globals: { client: exposeInstance(new Client()) } });
+    expect(await expression(sandbox, '"secretLength" in client')).toBe(false);
+  });
+
+  test("exposes getters when enabled", async () => {
+    sandbox = await createSandbox({
+      globals: { client: exposeInstance(new Client(), { getters: true }) },
+    });
+    expect(await sandbox.evaluate("await client.secretLength")).toBe(7);
+  });
+
+  test("works in nested globals", async () => {
+    sandbox = await createSandbox({
+      globals: { services: { client: exposeInstance(new Client()) } },
+    });
+    expect(await expression(sandbox, "await services.client.add(1, 1)")).toBe(2);
+  });
+
+  test("works for values returned from host functions", async () => {
+    sandbox = await createSandbox({
+      globals: { connect: () => exposeInstance(new Client()) },
+    });
+    expect(await expression(sandbox, "await (await connect()).greet()")).toBe("hello from client");
+  });
+
+  test("instances are cloned without exposeInstance", async () => {
+    sandbox = await createSandbox({ globals: { client: new Client() } });
+    expect(await expression(sandbox, "typeof client.add")).toBe("undefined");
+  });
+});
+
+describe("callbacks", () => {
+  test("host functions can call functions passed from the sandbox", async () => {
+    sandbox = await createSandbox({
+      globals: {
+        map: (items: number[], fn: (item: number) => Promise<number>) => Promise.all(items.map(fn)),
+      },
+    });
+    expect(await expression(sandbox, "await map([1, 2, 3], (x) => x * 2)")).toEqual([2, 4, 6]);
+  });
+
+  test("callbacks nested in objects and arrays", async () => {
+    sandbox = await createSandbox({
+      globals: {
+        subscribe: async (opts: { handlers: Array<(event: string) => Promise<string>> }) =>
+          Promise.all(opts.handlers.map((handler) => handler("evt"))),
+      },
+    });
+    await sandbox.run(`
+      globalThis.__result = await subscribe({
+        handlers: [(e) => e + "-a", async (e) => e + "-b"],
+      })
+    `);
+    expect(await sandbox.evaluate("globalThis.__result")).toEqual(["evt-a", "evt-b"]);
+  });
+
+  test("callbacks can be called after the host function returns", async () => {
+    let listener: ((value: number) => Promise<void>) | undefined;
+    sandbox = await createSandbox({
+      globals: {
+        listen: (fn: (value: number) => Promise<void>) => {
+          listener = fn;
+        },
+      },
+    });
+    await sandbox.run("globalThis.__events = []; await listen((v) => __events.push(v))");
+    await listener?.(1);
+    await listener?.(2);
+    expect(await sandbox.evaluate("globalThis.__events")).toEqual([1, 2]);
+  });
+
+  test("callback errors propagate to the host", async () => {
+    sandbox = await createSandbox({
+      globals: {
+        call: (fn: () => Promise<void>) => fn(),
+      },
+    });
+    await expect(
+      sandbox.run('await call(() => { throw new Error("guest error") })'),
+    ).rejects.toThrow("guest error");
+  });
+
+  test("callbacks reject after the sandbox is disposed", async () => {
+    let listener: (() => Promise<unknown>) | undefined;
+    sandbox = await createSandbox({
+      globals: {
+        listen: (fn: () => Promise<unknown>) => {
+          listener = fn;
+        },
+      },
+    });
+    await sandbox.run("await listen(() => 1)");
+    expect(await listener?.()).toBe(1);
+    sandbox.dispose();
+    await expect(listener?.()).rejects.toThrow("Sandbox has been disposed");
+  });
+
+  test("objects shaped like function references stay data", async () => {
+    let received: unknown;
+    sandbox = await createSandbox({
+      globals: {
+        send: (value: unknown) => {
+          received = value;
+          return { __slopjailFunction: 0, functionId: 0 };
+        },
+      },
+    });
+    expect(
+      await expression(
+        sandbox,
+        "await send([() => 1, { __slopjailFunction: 0, functionId: 0 }]).then((r) => typeof r)",
+      ),
+    ).toBe("object");
+    expect(typeof (received as unknown[])[0]).toBe("function");
+    expect((received as unknown[])[1]).toEqual({ __slopjailFunction: 0, functionId: 0 });
+  });
+
+  test("a __proto__ key stays an own property", async () => {
+    let received: Record<string, unknown> | undefined;
+    sandbox = await createSandbox({
+      globals: {
+        send: (value: Record<string, unknown>) => {
+          received = value;
+          return JSON.parse('{"__proto__":{"fromHost":true}}');
+        },
+      },
+    });
+    expect(
+      await expression(
+        sandbox,
+        `await send(JSON.parse('{"__proto__":{"path":123}}')).then((r) => [
+          Object.getPrototypeOf(r) === Object.prototype,
+          Object.hasOwn(r, "__proto__"),
+          r.fromHost,
+        ])`,
+      ),
+    ).toEqual([true, true, undefined]);
+    expect(Object.getPrototypeOf(received)).toBe(Object.prototype);
+    expect(Object.hasOwn(received ?? {}, "__proto__")).toBe(true);
+    expect(received?.path).toBeUndefined();
+  });
+});
+
+describe("handles", () => {
+  test("host functions can return objects with methods", async () => {
+    const files = new Map<string, string>();
+    sandbox = await createSandbox({
+      globals: {
+        openFile: (path: string) => ({
+          path,
+          read: () => files.get(path),
+          write: (data: string) => files.set(path, data) && undefined,
+        }),
+      },
+    });
+    await sandbox.run(`
+      const file = await openFile("notes.txt")
+      await file.write("hello")
+      globalThis.__result = [file.path, await file.read()]
+    `);
+    expect(await sandbox.evaluate("globalThis.__result")).toEqual(["notes.txt", "hello"]);
+    expect(files.get("notes.txt")).toBe("hello");
+  });
+
+  test("handle methods are bound to the returned object", async () => {
+    sandbox = await createSandbox({
+      globals: {
+        createCounter: () => ({
+          n: 0,
+          inc() {
+            return ++this.n;
+          },
+        }),
+      },
+    });
+    expect(
+      await sandbox.evaluate(
+        "(async () => { const c = await createCounter(); await c.inc(); return c.inc() })()",
+      ),
+    ).toBe(2);
+  });
+
+  test("host functions can return functions", async () => {
+    sandbox = await createSandbox({
+      globals: {
+        makeAdder: (a: number) => (b: number) => a + b,
+      },
+    });
+    expect(await expression(sandbox, "await (await makeAdder(2))(3)")).toBe(5);
+  });
+
+  test("disposing a handle releases its methods", async () => {
+    sandbox = await createSandbox({
+      globals: {
+        open: () => ({ read: () => "data" }),
+      },
+    });
+    await sandbox.run(`
+      globalThis.__handle = await open()
+      globalThis.__before = await __handle.read()
+      __handle[Symbol.dispose]()
+    `);
+    expect(await sandbox.evaluate("globalThis.__before")).toBe("data");
+    await expect(sandbox.evaluate("__handle.read()")).rejects.toThrow("Method has been released");
+  });
+
+  test("handles can be passed to sandbox callbacks", async () => {
+    sandbox = await createSandbox({
+      globals: {
+        withConnection: (fn: (conn: unknown) => Promise<unknown>) =>
+          fn({ query: (sql: string) => `result of ${sql}` }),
+      },
+    });
+    expect(
+      await expression(sandbox, 'await withConnection((conn) => conn.query("SELECT 1"))'),
+    ).toBe("result of SELECT 1");
+  });
+});
+
 describe("global value types", () => {
   describe("primitives", () => {
     test("number (including Infinity, NaN, -0)", async () => {
@@ -514,14 +1094,14 @@ describe("global value types", () => {
 });
 
 describe("lifecycle", () => {
-  test("dispose removes the iframe from the DOM", async () => {
+  test.runIf(isBrowser)("dispose removes the iframe from the DOM", async () => {
     sandbox = await createSandbox();
     expect(document.querySelectorAll("iframe").length).toBe(1);
     sandbox.dispose();
     expect(document.querySelectorAll("iframe").length).toBe(0);
   });
 
-  test("Symbol.dispose works", async () => {
+  test.runIf(isBrowser)("Symbol.dispose works", async () => {
     sandbox = await createSandbox();
     expect(document.querySelectorAll("iframe").length).toBe(1);
     sandbox[Symbol.dispose]();
@@ -534,6 +1114,13 @@ describe("lifecycle", () => {
     sandbox.dispose();
   });
 
+  test("disposed tells whether the sandbox was disposed", async () => {
+    sandbox = await createSandbox();
+    expect(sandbox.disposed).toBe(false);
+    sandbox.dispose();
+    expect(sandbox.disposed).toBe(true);
+  });
+
   test("run after dispose rejects with an error", async () => {
     sandbox = await createSandbox();
     sandbox.dispose();
@@ -572,22 +1159,296 @@ describe("timeout", () => {
     sandbox.dispose();
     await expect(pending).rejects.toThrow("Sandbox has been disposed");
   });
+
+  test("terminates runaway synchronous code", async () => {
+    sandbox = await createSandbox();
+    await expect(sandbox.run("while (true) {}", { timeout: 100 })).rejects.toThrow(
+      SandboxTimeoutError,
+    );
+    expect(await expression(sandbox, "1 + 1")).toBe(2);
+  });
+
+  test("restarting loses state but re-applies globals", async () => {
+    sandbox = await createSandbox({
+      globals: { add: (a: number, b: number) => a + b, version: 1 },
+    });
+    await sandbox.run("globalThis.__counter = 1");
+    const err = await sandbox.run("while (true) {}", { timeout: 100 }).catch((err) => err);
+    expect(err).toBeInstanceOf(SandboxTimeoutError);
+    expect(err.stateLost).toBe(true);
+    expect(await expression(sandbox, "typeof globalThis.__counter")).toBe("undefined");
+    expect(await expression(sandbox, "await add(version, 2)")).toBe(3);
+  });
+
+  test("restarting rejects other pending calls", async () => {
+    sandbox = await createSandbox();
+    const pending = sandbox.run("await new Promise(() => {})", { timeout: 10_000 });
+    await expect(sandbox.run("while (true) {}", { timeout: 100 })).rejects.toThrow(
+      SandboxTimeoutError,
+    );
+    await expect(pending).rejects.toThrow(SandboxRestartedError);
+  });
+
+  test("timeoutBehavior dispose disposes the sandbox", async () => {
+    sandbox = await createSandbox({ timeoutBehavior: "dispose" });
+    await expect(sandbox.run("while (true) {}", { timeout: 100 })).rejects.toThrow(
+      SandboxTimeoutError,
+    );
+    if (isBrowser) {
+      expect(document.querySelectorAll("iframe").length).toBe(0);
+    }
+    expect(sandbox.disposed).toBe(true);
+    await expect(sandbox.run("1")).rejects.toThrow("Sandbox has been disposed");
+  });
+
+  test("timeoutBehavior none keeps state", async () => {
+    sandbox = await createSandbox({ timeoutBehavior: "none" });
+    await sandbox.run("globalThis.__counter = 1");
+    const err = await sandbox
+      .run("await new Promise(() => {})", { timeout: 50 })
+      .catch((err) => err);
+    expect(err).toBeInstanceOf(SandboxTimeoutError);
+    expect(err.stateLost).toBe(false);
+    expect(await expression(sandbox, "globalThis.__counter")).toBe(1);
+  });
+});
+
+describe("abort signal", () => {
+  test("rejects with a SandboxAbortedError when aborted", async () => {
+    sandbox = await createSandbox();
+    const controller = new AbortController();
+    const pending = sandbox.run("while (true) {}", { signal: controller.signal });
+    controller.abort();
+    const err = await pending.catch((err) => err);
+    expect(err).toBeInstanceOf(SandboxAbortedError);
+    expect(err.cause).toHaveProperty("name", "AbortError");
+    expect(err.stateLost).toBe(true);
+    expect(await expression(sandbox, "1 + 1")).toBe(2);
+  });
+
+  test("rejects immediately if already aborted", async () => {
+    sandbox = await createSandbox();
+    await sandbox.run("globalThis.__counter = 1");
+    await expect(
+      sandbox.evaluate("globalThis.__counter", { signal: AbortSignal.abort() }),
+    ).rejects.toThrow(SandboxAbortedError);
+    // Nothing was running, so the worker is left alone
+    expect(await expression(sandbox, "globalThis.__counter")).toBe(1);
+  });
+
+  test("keeps a custom reason as the cause", async () => {
+    sandbox = await createSandbox();
+    const controller = new AbortController();
+    const pending = sandbox.run("await new Promise(() => {})", { signal: controller.signal });
+    const reason = new Error("stopped by user");
+    controller.abort(reason);
+    await expect(pending).rejects.toHaveProperty("cause", reason);
+  });
+
+  test("aborts the signal of running host functions", async () => {
+    let hostSignal: AbortSignal | undefined;
+    sandbox = await createSandbox({
+      globals: {
+        wait: () => {
+          hostSignal = getAbortSignal();
+          return new Promise(() => {});
+        },
+      },
+    });
+    const controller = new AbortController();
+    const pending = sandbox.run("await wait()", { signal: controller.signal });
+    await vi.waitFor(() => expect(hostSignal).toBeDefined());
+    expect(hostSignal?.aborted).toBe(false);
+    controller.abort();
+    await expect(pending).rejects.toThrow();
+    expect(hostSignal?.aborted).toBe(true);
+  });
+
+  test("keeps the worker when the run is waiting on a host function", async () => {
+    sandbox = await createSandbox({ globals: { wait: () => new Promise(() => {}) } });
+    await sandbox.run("globalThis.__counter = 1");
+    const controller = new AbortController();
+    const pending = sandbox.run("await wait()", { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    controller.abort();
+    await expect(pending).rejects.toHaveProperty("stateLost", false);
+    expect(await expression(sandbox, "globalThis.__counter")).toBe(1);
+  });
+
+  test("interrupts code that keeps running while a host function is pending", async () => {
+    sandbox = await createSandbox({ globals: { wait: () => new Promise(() => {}) } });
+    await sandbox.run("globalThis.__counter = 1");
+    const controller = new AbortController();
+    const pending = sandbox.run("wait(); while (true) {}", { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    controller.abort();
+    await expect(pending).rejects.toThrow(SandboxAbortedError);
+    await expect(pending).rejects.toHaveProperty("stateLost", true);
+    expect(await expression(sandbox, "globalThis.__counter ?? 0")).toBe(0);
+  });
+
+  test("doesn't abort host functions called by other runs", async () => {
+    const signals: AbortSignal[] = [];
+    sandbox = await createSandbox({
+      globals: {
+        wait: () => {
+          signals.push(getAbortSignal());
+          return new Promise(() => {});
+        },
+      },
+    });
+    const controller = new AbortController();
+    const aborted = sandbox.run("await wait()", { signal: controller.signal });
+    const other = sandbox.run("await wait()", { timeout: 10_000 });
+    other.catch(() => {});
+    await vi.waitFor(() => expect(signals).toHaveLength(2));
+    controller.abort();
+    await expect(aborted).rejects.toThrow(SandboxAbortedError);
+    expect(signals.map((signal) => signal.aborted)).toEqual([true, false]);
+  });
+
+  test("honours timeoutBehavior none", async () => {
+    sandbox = await createSandbox({ timeoutBehavior: "none" });
+    await sandbox.run("globalThis.__counter = 1");
+    const controller = new AbortController();
+    const pending = sandbox.run("await new Promise(() => {})", { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toHaveProperty("stateLost", false);
+    expect(await expression(sandbox, "globalThis.__counter")).toBe(1);
+  });
+
+  test("honours timeoutBehavior dispose", async () => {
+    sandbox = await createSandbox({ timeoutBehavior: "dispose" });
+    const controller = new AbortController();
+    const pending = sandbox.run("while (true) {}", { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toThrow(SandboxAbortedError);
+    await expect(sandbox.run("1")).rejects.toThrow(SandboxDisposedError);
+  });
+
+  test("getAbortSignal throws outside of a host function", () => {
+    expect(() => getAbortSignal()).toThrow();
+  });
+});
+
+describe("console", () => {
+  test("collects logs into the run result", async () => {
+    sandbox = await createSandbox({ console: true });
+    const { logs } = await sandbox.run('console.log("hello", 1, { a: [2] })');
+    expect(logs).toEqual([
+      expect.objectContaining({
+        level: "log",
+        method: "log",
+        args: ["hello", 1, { a: [2] }],
+        depth: 0,
+      }),
+    ]);
+    expect(typeof logs[0].timestamp).toBe("number");
+  });
+
+  test("reports errors thrown by the callback without affecting the sandbox", async () => {
+    const errors = await catchReportedErrors(async () => {
+      sandbox = await createSandbox({
+        console: () => {
+          throw new Error("console failed");
+        },
+      });
+      const { logs } = await sandbox.run('console.log("a"); console.log("b")');
+      expect(logs.map((entry) => entry.args)).toEqual([["a"], ["b"]]);
+    });
+    expect(errors).toEqual([new Error("console failed"), new Error("console failed")]);
+  });
+
+  test("maps console methods to levels", async () => {
+    sandbox = await createSandbox({ console: true });
+    const { logs } = await sandbox.run(`
+      console.debug("d")
+      console.info("i")
+      console.warn("w")
+      console.error("e")
+      console.table([1, 2])
+      console.assert(false, "nope")
+    `);
+    expect(logs.map((entry) => [entry.level, entry.method])).toEqual([
+      ["debug", "debug"],
+      ["info", "info"],
+      ["warn", "warn"],
+      ["error", "error"],
+      ["log", "table"],
+      ["error", "assert"],
+    ]);
+  });
+
+  test("tracks group depth, counters and timers", async () => {
+    sandbox = await createSandbox({ console: true });
+    const { logs } = await sandbox.run(`
+      console.group("outer")
+      console.count()
+      console.count()
+      console.groupEnd()
+      console.time("t")
+      console.timeEnd("t")
+      console.timeEnd("t")
+    `);
+    expect(logs.map((entry) => entry.depth)).toEqual([0, 1, 1, 0, 0]);
+    expect(logs[1].args).toEqual(["default: 1"]);
+    expect(logs[2].args).toEqual(["default: 2"]);
+    expect(logs[3].args[0]).toMatch(/^t: [\d.]+ms$/);
+    expect(logs[4]).toMatchObject({ level: "warn", args: ["Timer 't' does not exist"] });
+  });
+
+  test("formats non-cloneable arguments", async () => {
+    sandbox = await createSandbox({ console: true });
+    const { logs } = await sandbox.run(`
+      function greet() {}
+      console.log(greet, Symbol("s"), { fn: greet })
+    `);
+    expect(logs[0].args).toEqual(["[Function: greet]", "Symbol(s)", "{fn: [Function: greet]}"]);
+  });
+
+  test("delivers entries to a callback with the run id", async () => {
+    const onConsole = vi.fn();
+    sandbox = await createSandbox({ console: onConsole });
+    await sandbox.run('console.log("first")');
+    await sandbox.run('console.log("second")');
+    expect(onConsole).toHaveBeenCalledTimes(2);
+    const [[first], [second]] = onConsole.mock.calls;
+    expect(first.args).toEqual(["first"]);
+    expect(second.args).toEqual(["second"]);
+    expect(typeof first.runId).toBe("number");
+    expect(second.runId).not.toBe(first.runId);
+  });
+
+  test("is captured after a restart", async () => {
+    sandbox = await createSandbox({ console: true });
+    await expect(sandbox.run("while (true) {}", { timeout: 100 })).rejects.toThrow(
+      SandboxTimeoutError,
+    );
+    const { logs } = await sandbox.run('console.log("back")');
+    expect(logs.map((entry) => entry.args)).toEqual([["back"]]);
+  });
+
+  test("returns no logs when disabled", async () => {
+    sandbox = await createSandbox();
+    const { logs } = await sandbox.run('console.log("hello")');
+    expect(logs).toEqual([]);
+  });
 });
 
 describe("options", () => {
-  test("custom name is applied", async () => {
+  test.runIf(isBrowser)("custom name is applied", async () => {
     sandbox = await createSandbox({ name: "my-test-sandbox" });
     const iframe = document.querySelector('iframe[name="my-test-sandbox"]') as HTMLIFrameElement;
     expect(iframe).not.toBeNull();
   });
 
-  test("default name is slopjail", async () => {
+  test.runIf(isBrowser)("default name is slopjail", async () => {
     sandbox = await createSandbox();
     const iframe = document.querySelector('iframe[name="slopjail"]') as HTMLIFrameElement;
     expect(iframe).not.toBeNull();
   });
 
-  test("custom CSP allows network access", async () => {
+  test.runIf(isBrowser)("custom CSP allows network access", async () => {
     sandbox = await createSandbox({
       contentSecurityPolicy: {
         connectSrc: ["https://httpbin.org"],
@@ -598,7 +1459,7 @@ describe("options", () => {
     );
   });
 
-  test("custom CSP allows remote imports", async () => {
+  test.runIf(isBrowser)("custom CSP allows remote imports", async () => {
     sandbox = await createSandbox({
       contentSecurityPolicy: {
         scriptSrc: ["https://esm.sh"],
@@ -612,6 +1473,240 @@ describe("options", () => {
   });
 });
 
+describe("transform", () => {
+  // Replaces simple type annotations with whitespace, preserving locations
+  const stripTypes = (code: string) =>
+    code.replace(/:\s*number\b/g, (match) => " ".repeat(match.length));
+
+  test("transforms code before it runs", async () => {
+    sandbox = await createSandbox({ transform: stripTypes });
+    await sandbox.run("const x: number = 1; globalThis.__result = ((y: number) => x + y)(2)");
+    expect(await sandbox.evaluate("globalThis.__result")).toBe(3);
+    await expect(expression(sandbox, "((y: number) => y * 2)(21)")).resolves.toBe(42);
+  });
+
+  test("supports async transforms", async () => {
+    sandbox = await createSandbox({ transform: async (code) => stripTypes(code) });
+    await expect(sandbox.evaluate("((y: number) => y)(1)")).resolves.toBe(1);
+  });
+
+  test("ignores a trailing semicolon in expressions", async () => {
+    sandbox = await createSandbox({ transform: (code) => `${code};\n` });
+    await expect(sandbox.evaluate("1 + 1")).resolves.toBe(2);
+  });
+
+  test("maps error locations with a source map", async () => {
+    sandbox = await createSandbox({
+      // Drops the first line, so each line maps to the one after it
+      transform: (code) => ({
+        code: code.slice(code.indexOf("\n") + 1),
+        map: { version: 3, mappings: "AACA" },
+      }),
+    });
+    const err = await sandbox.run("type Nothing = null\nnull.foo").catch((err) => err);
+    expect(err.stack).toMatch(/run-\d+:2:\d+/);
+  });
+});
+
+describe("onHostCall", () => {
+  test("receives the dotted path and arguments", async () => {
+    const onHostCall = vi.fn();
+    sandbox = await createSandbox({
+      globals: { math: { add: (a: number, b: number) => a + b } },
+      onHostCall,
+    });
+    expect(await expression(sandbox, "await math.add(1, 2)")).toBe(3);
+    expect(onHostCall).toHaveBeenCalledWith(
+      expect.objectContaining({ path: "math.add", args: [1, 2] }),
+    );
+  });
+
+  test("denies calls", async () => {
+    const remove = vi.fn();
+    sandbox = await createSandbox({
+      globals: { files: { remove } },
+      onHostCall: ({ path }) => path !== "files.remove",
+    });
+    await expect(sandbox.evaluate("files.remove('/report.pdf')")).rejects.toThrow(
+      "Call to files.remove was denied",
+    );
+    expect(remove).not.toHaveBeenCalled();
+  });
+
+  test("rejects with errors thrown by the hook", async () => {
+    sandbox = await createSandbox({
+      globals: { fn: () => 1 },
+      onHostCall: () => {
+        throw new Error("Not now");
+      },
+    });
+    await expect(sandbox.evaluate("fn()")).rejects.toThrow("Not now");
+  });
+
+  test("rewrites arguments", async () => {
+    sandbox = await createSandbox({
+      globals: { echo: (value: string) => value },
+      onHostCall: ({ args }) => ({ args: [String(args[0]).toUpperCase()] }),
+    });
+    expect(await expression(sandbox, 'await echo("hi")')).toBe("HI");
+  });
+
+  test("validates rewritten arguments against the schema", async () => {
+    const echo = withSchema((value: string) => value, {
+      params: [{ name: "value", type: "string" }],
+    });
+    sandbox = await createSandbox({
+      globals: { echo },
+      onHostCall: () => ({ args: [42] }),
+    });
+    await expect(sandbox.evaluate('echo("hi")')).rejects.toThrow("Invalid arguments for echo");
+  });
+
+  test("waits for async decisions", async () => {
+    const remove = vi.fn(() => "removed");
+    let confirm!: (allowed: boolean) => void;
+    sandbox = await createSandbox({
+      globals: { remove },
+      onHostCall: () => new Promise<boolean>((resolve) => (confirm = resolve)),
+    });
+    const result = sandbox.evaluate("remove()");
+    await vi.waitFor(() => expect(confirm).toBeDefined());
+    expect(remove).not.toHaveBeenCalled();
+    confirm(true);
+    expect(await result).toBe("removed");
+  });
+
+  test("names handles after the call that returned them", async () => {
+    const paths: string[] = [];
+    sandbox = await createSandbox({
+      globals: { github: { getRepo: () => ({ star: () => true }) } },
+      onHostCall: ({ path }) => {
+        paths.push(path);
+      },
+    });
+    await sandbox.run("const repo = await github.getRepo(); await repo.star()");
+    expect(paths).toEqual(["github.getRepo", "github.getRepo().star"]);
+  });
+
+  test("receives the run that made the call", async () => {
+    const runIds: Array<number | undefined> = [];
+    const logs: Array<number | undefined> = [];
+    sandbox = await createSandbox({
+      globals: { fn: () => {} },
+      console: (entry) => logs.push(entry.runId),
+      onHostCall: ({ runId }) => {
+        runIds.push(runId);
+      },
+    });
+    await sandbox.run("console.log('hi'); await fn()");
+    expect(runIds).toHaveLength(1);
+    expect(runIds[0]).toBeTypeOf("number");
+    expect(runIds).toEqual(logs);
+  });
+});
+
+describe("schemas", () => {
+  const addSchema: FunctionSchema = {
+    params: [
+      { name: "a", type: "number" },
+      { name: "b", type: "number" },
+    ],
+    returns: { type: "number" },
+  };
+  const add = withSchema((a: number, b: number) => a + b, addSchema);
+
+  test("allows calls with matching arguments", async () => {
+    sandbox = await createSandbox({ globals: { math: { add } } });
+    expect(await expression(sandbox, "await math.add(1, 2)")).toBe(3);
+  });
+
+  test("rejects calls with mismatched arguments", async () => {
+    const fn = vi.fn((a: number, b: number) => a + b);
+    sandbox = await createSandbox({ globals: { math: { add: withSchema(fn, addSchema) } } });
+    await expect(sandbox.evaluate('math.add("x", {})')).rejects.toThrow(
+      "Invalid arguments for math.add: a must be number, got string",
+    );
+    await expect(sandbox.evaluate("math.add(1)")).rejects.toThrow("b is required");
+    await expect(sandbox.evaluate("math.add(1, 2, 3)")).rejects.toThrow(
+      "expected at most 2 arguments, got 3",
+    );
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  test("checks nested values", async () => {
+    const write = withSchema((_path: string, _opts?: { mode: string }) => {}, {
+      params: [
+        { name: "path", type: "string", pattern: "^/" },
+        {
+          name: "opts",
+          type: "object",
+          optional: true,
+          properties: { mode: { enum: ["append", "overwrite"] } },
+          additionalProperties: false,
+        },
+      ],
+    });
+    sandbox = await createSandbox({ globals: { write } });
+    await expect(sandbox.evaluate('write("/a.txt", { mode: "append" })')).resolves.toBe(undefined);
+    await expect(sandbox.evaluate('write("a.txt")')).rejects.toThrow(
+      "path must match the pattern ^/",
+    );
+    await expect(sandbox.evaluate('write("/a.txt", { mode: "x" })')).rejects.toThrow(
+      'opts.mode must be one of "append", "overwrite"',
+    );
+    await expect(sandbox.evaluate('write("/a.txt", { force: true })')).rejects.toThrow(
+      "opts.force is not allowed",
+    );
+  });
+
+  test("only counts own properties", async () => {
+    const fn = vi.fn((_opts: { path: string }) => {});
+    const schema: FunctionSchema = {
+      params: [
+        {
+          name: "opts",
+          type: "object",
+          properties: { path: { type: "string" } },
+          required: ["path"],
+          additionalProperties: false,
+        },
+      ],
+    };
+    sandbox = await createSandbox({
+      globals: { open: withSchema(fn, schema) },
+      onHostCall: ({ args }) =>
+        (args[0] as { path: string }).path === "inherit"
+          ? { args: [Object.create({ path: 123 })] }
+          : true,
+    });
+    await expect(
+      sandbox.evaluate(`open(JSON.parse('{"__proto__":{"path":123}}'))`),
+    ).rejects.toThrow("Invalid arguments for open");
+    await expect(sandbox.evaluate('open({ path: "inherit" })')).rejects.toThrow(
+      "opts must be a plain object",
+    );
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  test("rejects mismatched return values", async () => {
+    const fn = withSchema(() => "3", { returns: { type: "number" } });
+    sandbox = await createSandbox({ globals: { fn } });
+    await expect(sandbox.evaluate("fn()")).rejects.toThrow(
+      "Invalid result from fn: return value must be number, got string",
+    );
+  });
+
+  test("works for handles", async () => {
+    const open = () => ({
+      read: withSchema((_offset: number) => "", { params: [{ name: "offset", type: "integer" }] }),
+    });
+    sandbox = await createSandbox({ globals: { open } });
+    await expect(sandbox.run("const file = await open(); await file.read(1.5)")).rejects.toThrow(
+      "Invalid arguments for open().read: offset must be integer, got number",
+    );
+  });
+});
+
 describe("multiple sandboxes", () => {
   test("sandboxes are isolated from each other", async () => {
     const sandbox1 = await createSandbox();
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+
+import { createSandbox, type Sandbox, serveSandboxes } from "../src";
+
+let sandbox: Sandbox;
+let stop: (() => void) | undefined;
+
+afterEach(() => {
+  sandbox?.dispose();
+  stop?.();
+});
+
+/** Waits until the number of iframes in the document reaches `count`. */
+async function iframeCount(count: number) {
+  await expect.poll(() => document.querySelectorAll("iframe").length).toBe(count);
+}
+
+/** Asks connectorWorker.ts to evaluate an expression in a sandbox it creates. */
+async function evaluateInWorker(expr: string, connected: boolean): Promise<unknown> {
+  const worker = new Worker(new URL("./connectorWorker.ts", import.meta.url), { type: "module" });
+  stop = serveSandboxes(worker);
+  try {
+    const result = await new Promise<{ value?: unknown; error?: string }>((resolve) => {
+      worker.addEventListener("message", (event) => {
+        if (event.data?.type === "result") {
+          resolve(event.data);
+        }
+      });
+      worker.postMessage({ type: "evaluate", expr, connected });
+    });
+    if (result.error !== undefined) {
+      throw new Error(result.error);
+    }
+    return result.value;
+  } finally {
+    worker.terminate();
+  }
+}
+
+describe("connector", () => {
+  test("creates sandboxes through a port", async () => {
+    const channel = new MessageChannel();
+    stop = serveSandboxes(channel.port1);
+    sandbox = await createSandbox({
+      connector: channel.port2,
+      globals: { add: (a: number, b: number) => a + b },
+    });
+    expect(await sandbox.evaluate("add(1, 2)")).toBe(3);
+  });
+
+  test("restarts the worker after a timeout", async () => {
+    const channel = new MessageChannel();
+    stop = serveSandboxes(channel.port1);
+    sandbox = await createSandbox({ connector: channel.port2 });
+    await expect(sandbox.evaluate("while (true) {}", { timeout: 100 })).rejects.toThrow();
+    expect(await sandbox.evaluate("1 + 1")).toBe(2);
+  });
+
+  test("disposing the sandbox removes its iframe", async () => {
+    const before = document.querySelectorAll("iframe").length;
+    const channel = new MessageChannel();
+    stop = serveSandboxes(channel.port1);
+    sandbox = await createSandbox({ connector: channel.port2 });
+    await iframeCount(before + 1);
+    sandbox.dispose();
+    await iframeCount(before);
+  });
+
+  test("stopping removes the iframes of served sandboxes", async () => {
+    const before = document.querySelectorAll("iframe").length;
+    const channel = new MessageChannel();
+    stop = serveSandboxes(channel.port1);
+    sandbox = await createSandbox({ connector: channel.port2 });
+    await iframeCount(before + 1);
+    stop();
+    await iframeCount(before);
+  });
+
+  test("fails if nothing serves the connector", async () => {
+    vi.useFakeTimers();
+    try {
+      const channel = new MessageChannel();
+      const pending = expect(createSandbox({ connector: channel.port2 })).rejects.toThrow(
+        "serveSandboxes()",
+      );
+      await vi.advanceTimersByTimeAsync(10_000);
+      await pending;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test("creates sandboxes from a Web Worker", async () => {
+    expect(await evaluateInWorker("add(1, 2)", true)).toBe(3);
+  });
+
+  test("creating a sandbox without a DOM or connector fails", async () => {
+    await expect(evaluateInWorker("1", false)).rejects.toThrow("needs a DOM");
+  });
+});
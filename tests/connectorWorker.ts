@@ -0,0 +1,23 @@
+// A Web Worker that creates sandboxes, for connector.test.ts
+
+import { createSandbox, type SandboxConnector } from "../src";
+
+// The tests are typed with the DOM library, where self is a Window
+const scope = self as unknown as SandboxConnector;
+
+self.addEventListener("message", async (event) => {
+  if (event.data?.type !== "evaluate") {
+    return;
+  }
+  try {
+    const sandbox = await createSandbox({
+      connector: event.data.connected ? scope : undefined,
+      globals: { add: (a: number, b: number) => a + b },
+    });
+    const value = await sandbox.evaluate(event.data.expr);
+    sandbox.dispose();
+    scope.postMessage({ type: "result", value }, []);
+  } catch (err) {
+    scope.postMessage({ type: "result", error: (err as Error).message }, []);
+  }
+});
@@ -0,0 +1,95 @@
+import { describe, expect, test } from "vitest";
+
+import { exposeInstance, generateDeclarations, withSchema } from "../src";
+
+describe("generateDeclarations", () => {
+  test("declares constants with inferred types", () => {
+    expect(
+      generateDeclarations({
+        version: "1.0",
+        debug: false,
+        limits: [1, 2, "three"],
+        config: { retries: 3, endpoint: null },
+      }),
+    ).toBe(`// Functions run outside of the sandbox, so they're async and must be awaited.
+
+declare const version: string;
+
+declare const debug: boolean;
+
+declare const limits: (number | string)[];
+
+declare const config: {
+  retries: number;
+  endpoint: null;
+};
+`);
+  });
+
+  test("leaves out globals that aren't identifiers", () => {
+    const declarations = generateDeclarations({
+      "my-tool": () => {},
+      delete: () => {},
+      "a: number; declare const b": 1,
+      ok: 1,
+    });
+    expect(declarations)
+      .toBe(`// Functions run outside of the sandbox, so they're async and must be awaited.
+
+declare const ok: number;
+`);
+  });
+
+  test("declares functions as async", () => {
+    expect(generateDeclarations({ log: () => {}, files: { read: () => "" } })).toContain(
+      `declare function log(...args: unknown[]): Promise<unknown>;
+
+declare const files: {
+  read(...args: unknown[]): Promise<unknown>;
+};`,
+    );
+  });
+
+  test("uses schemas for signatures and documentation", () => {
+    const write = withSchema((_path: string, _opts?: { mode: string }) => 0, {
+      description: "Writes a file",
+      params: [
+        { name: "path", type: "string", description: "Absolute path of the file" },
+        {
+          name: "opts",
+          type: "object",
+          optional: true,
+          properties: { mode: { enum: ["append", "overwrite"] } },
+          required: ["mode"],
+        },
+      ],
+      returns: { type: "integer", description: "Bytes written" },
+    });
+    expect(generateDeclarations({ files: { write } })).toContain(`declare const files: {
+  /**
+   * Writes a file
+   * @param path - Absolute path of the file
+   * @returns Bytes written
+   */
+  write(path: string, opts?: { mode: "append" | "overwrite" }): Promise<number>;
+};`);
+  });
+
+  test("walks exposed instances", () => {
+    class Counter {
+      count = 0;
+      get double() {
+        return this.count * 2;
+      }
+      increment() {
+        this.count++;
+      }
+    }
+    expect(generateDeclarations({ counter: exposeInstance(new Counter(), { getters: true }) }))
+      .toContain(`declare const counter: {
+  count: number;
+  increment(...args: unknown[]): Promise<unknown>;
+  readonly double: Promise<unknown>;
+};`);
+  });
+});
@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, test } from "vitest";
+
+import { createSandbox, type Sandbox } from "../src";
+import { expression } from "./testUtils";
+
+let sandbox: Sandbox;
+let other: Sandbox | undefined;
+
+afterEach(() => {
+  sandbox?.dispose();
+  other?.dispose();
+  other = undefined;
+});
+
+const randomCode = `
+  const bytes = crypto.getRandomValues(new Uint8Array(4))
+  ;[Math.random(), Array.from(bytes), crypto.randomUUID()]
+`;
+
+describe("deterministic", () => {
+  test("same seed produces the same random values", async () => {
+    sandbox = await createSandbox({ deterministic: { seed: 1 } });
+    other = await createSandbox({ deterministic: { seed: 1 } });
+    const { value } = await sandbox.exec(randomCode);
+    expect((await other.exec(randomCode)).value).toEqual(value);
+  });
+
+  test("different seeds produce different random values", async () => {
+    sandbox = await createSandbox({ deterministic: { seed: 1 } });
+    other = await createSandbox({ deterministic: { seed: 2 } });
+    const { value } = await sandbox.exec(randomCode);
+    expect((await other.exec(randomCode)).value).not.toEqual(value);
+  });
+
+  test("randomUUID returns a version 4 UUID", async () => {
+    sandbox = await createSandbox({ deterministic: true });
+    // Not expression(), which would compare two different UUIDs
+    expect(await sandbox.evaluate("crypto.randomUUID()")).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+  });
+
+  test("the prototype doesn't leak the real getRandomValues", async () => {
+    sandbox = await createSandbox({ deterministic: true });
+    other = await createSandbox({ deterministic: true });
+    const code = "Object.getPrototypeOf(crypto).getRandomValues.call(crypto, new Uint32Array(2))";
+    expect(await sandbox.evaluate(code)).toEqual(await other.evaluate(code));
+  });
+
+  test("the performance timeline doesn't leak the real clock", async () => {
+    sandbox = await createSandbox({ deterministic: true });
+    expect(
+      await expression(
+        sandbox,
+        "[performance.mark?.('x').startTime ?? null, typeof PerformanceObserver, new Event('x').timeStamp]",
+      ),
+    ).toEqual([null, "undefined", 0]);
+  });
+
+  test("the clock is frozen at the start time", async () => {
+    const now = Date.UTC(2025, 0, 1);
+    sandbox = await createSandbox({ deterministic: { now } });
+    await sandbox.run("await new Promise((resolve) => setTimeout(resolve, 20))");
+    expect(
+      await expression(
+        sandbox,
+        "[Date.now(), new Date().getTime(), new Date(0).getTime(), performance.now()]",
+      ),
+    ).toEqual([now, now, 0, 0]);
+    expect(await sandbox.evaluate("typeof Date()")).toBe("string");
+    expect(await sandbox.evaluate("new Date() instanceof Date")).toBe(true);
+  });
+
+  test("Intl.DateTimeFormat and Temporal.Now use the virtual clock", async () => {
+    const now = Date.UTC(2025, 0, 1, 12, 34, 56, 789);
+    const options: Intl.DateTimeFormatOptions = {
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      fractionalSecondDigits: 3,
+      timeZone: "UTC",
+    };
+    sandbox = await createSandbox({ deterministic: { now } });
+    const format = new Intl.DateTimeFormat("en", options);
+    expect(
+      await expression(
+        sandbox,
+        `(() => {
+          const format = new Intl.DateTimeFormat("en", ${JSON.stringify(options)})
+          return [
+            format.format(),
+            format.formatToParts().map((part) => part.value).join(""),
+            format.format === format.format,
+            typeof Temporal === "undefined" ? ${now} : Temporal.Now.instant().epochMilliseconds,
+          ]
+        })()`,
+      ),
+    ).toEqual([
+      format.format(now),
+      format
+        .formatToParts(now)
+        .map((part) => part.value)
+        .join(""),
+      true,
+      now,
+    ]);
+  });
+
+  test("virtual timers advance the clock without waiting", async () => {
+    sandbox = await createSandbox({ deterministic: { virtualTimers: true } });
+    const { value } = await sandbox.exec(
+      `
+      const order = []
+      setTimeout(() => order.push("b"), 2000)
+      setTimeout(() => order.push("a"), 1000)
+      const interval = setInterval(() => order.push("i"), 700)
+      await new Promise((resolve) => setTimeout(resolve, 3_600_000))
+      clearInterval(interval)
+      ;[order.slice(0, 6).join(""), Date.now(), performance.now()]
+    `,
+      { timeout: 2000 },
+    );
+    expect(value).toEqual(["iaibii", 3_600_000, 3_600_000]);
+  });
+
+  test("console timestamps use the virtual clock", async () => {
+    sandbox = await createSandbox({ deterministic: { now: 1000 }, console: true });
+    const { logs } = await sandbox.run('console.log("hi")');
+    expect(logs[0].timestamp).toBe(1000);
+  });
+
+  test("starts over after a restart", async () => {
+    sandbox = await createSandbox({ deterministic: { seed: 7 } });
+    const first = await sandbox.evaluate("Math.random()");
+    await expect(sandbox.run("while (true) {}", { timeout: 100 })).rejects.toThrow();
+    expect(await sandbox.evaluate("Math.random()")).toBe(first);
+  });
+
+  test("is off by default", async () => {
+    sandbox = await createSandbox();
+    expect(await sandbox.evaluate("Date.now()")).toBeGreaterThan(Date.UTC(2020, 0, 1));
+  });
+});
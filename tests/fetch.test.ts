@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+
+import { createSandbox, type Sandbox } from "../src";
+
+let sandbox: Sandbox;
+
+afterEach(() => {
+  sandbox?.dispose();
+});
+
+describe("fetch", () => {
+  test("sends requests through the host", async () => {
+    const send = vi.fn(async (_request: Request) => Response.json({ stars: 42 }));
+    sandbox = await createSandbox({ fetch: { onRequest: () => true, fetch: send } });
+    const value = await sandbox.evaluate('(await fetch("https://api.example.com/repo")).json()');
+    expect(value).toEqual({ stars: 42 });
+    expect(send.mock.calls[0][0].url).toBe("https://api.example.com/repo");
+  });
+
+  test("sends request bodies and returns response details", async () => {
+    const send = async (request: Request) =>
+      new Response(`${request.method} ${await request.text()}`, {
+        status: 201,
+        statusText: "Created",
+        headers: { "X-Echo": request.headers.get("X-Request") ?? "" },
+      });
+    sandbox = await createSandbox({ fetch: { onRequest: () => true, fetch: send } });
+    const { value } = await sandbox.exec(`
+      const res = await fetch("https://api.example.com/items", {
+        method: "POST",
+        headers: { "X-Request": "hello" },
+        body: "data",
+      })
+      ;[res.status, res.statusText, res.headers.get("X-Echo"), await res.text()]
+    `);
+    expect(value).toEqual([201, "Created", "hello", "POST data"]);
+  });
+
+  test("works when the globals policy removes Request and Response", async () => {
+    const send = async () => Response.json({ stars: 42 });
+    sandbox = await createSandbox({
+      fetch: { onRequest: () => true, fetch: send },
+      globalsPolicy: { block: ["Request", "Response", "Headers"] },
+    });
+    const value = await sandbox.evaluate('(await fetch("https://api.example.com/repo")).json()');
+    expect(value).toEqual({ stars: 42 });
+  });
+
+  test("denies requests", async () => {
+    const send = vi.fn();
+    sandbox = await createSandbox({
+      fetch: {
+        onRequest: (request) => new URL(request.url).hostname === "api.example.com",
+        fetch: send,
+      },
+    });
+    await expect(sandbox.evaluate('fetch("https://evil.example.com/")')).rejects.toMatchObject({
+      name: "TypeError",
+      message: "Request to https://evil.example.com/ was denied",
+    });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  test("adds headers the sandbox never sees", async () => {
+    const send = async (request: Request) =>
+      new Response(request.headers.get("Authorization") === "Bearer secret" ? "ok" : "denied");
+    sandbox = await createSandbox({
+      fetch: {
+        onRequest: (request) => {
+          const headers = new Headers(request.headers);
+          headers.set("Authorization", "Bearer secret");
+          return new Request(request, { headers });
+        },
+        fetch: send,
+      },
+    });
+    const { value } = await sandbox.exec(`
+      const request = new Request("https://api.example.com/")
+      const text = await (await fetch(request)).text()
+      ;[text, request.headers.get("Authorization")]
+    `);
+    expect(value).toEqual(["ok", null]);
+  });
+
+  test("sends requests without cookies or redirects", async () => {
+    const send = vi.fn(async (_request: Request) => new Response("ok"));
+    sandbox = await createSandbox({ fetch: { onRequest: () => true, fetch: send } });
+    await sandbox.run('await fetch("https://api.example.com/", { credentials: "include" })');
+    expect(send.mock.calls[0][0]).toMatchObject({ credentials: "omit", redirect: "error" });
+  });
+
+  test("caps the size of responses", async () => {
+    sandbox = await createSandbox({
+      fetch: {
+        onRequest: () => true,
+        maxResponseSize: 10,
+        fetch: async () => new Response("x".repeat(11)),
+      },
+    });
+    await expect(sandbox.evaluate('fetch("https://api.example.com/")')).rejects.toThrow(
+      "Response body is larger than 10 bytes",
+    );
+  });
+
+  test("can be aborted inside the sandbox", async () => {
+    sandbox = await createSandbox({
+      fetch: { onRequest: () => true, fetch: () => new Promise<Response>(() => {}) },
+    });
+    await expect(
+      sandbox.evaluate('fetch("https://api.example.com/", { signal: AbortSignal.timeout(50) })'),
+    ).rejects.toMatchObject({ name: "TimeoutError" });
+  });
+});
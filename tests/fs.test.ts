@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+
+import { createSandbox, type Sandbox } from "../src";
+
+let sandbox: Sandbox;
+
+afterEach(() => {
+  sandbox?.dispose();
+});
+
+describe("fs", () => {
+  test("reads seeded files and writes artifacts", async () => {
+    sandbox = await createSandbox({ fs: { files: { "/data.csv": "a\nb\nc" } } });
+    await sandbox.run(`
+      const rows = (await fs.readFile("/data.csv", "utf8")).split("\\n")
+      await fs.writeFile("/out/count.json", JSON.stringify({ count: rows.length }))
+    `);
+    expect(sandbox.fs.readFile("/out/count.json", "utf8")).toBe('{"count":3}');
+    expect(sandbox.fs.list()).toEqual(["/data.csv", "/out/count.json"]);
+  });
+
+  test("host writes are visible inside the sandbox", async () => {
+    sandbox = await createSandbox({ fs: true });
+    sandbox.fs.writeFile("input.txt", "hello");
+    expect(await sandbox.evaluate('fs.readFile("input.txt", "utf8")')).toBe("hello");
+  });
+
+  test("stores binary data", async () => {
+    sandbox = await createSandbox({ fs: true });
+    await sandbox.run('await fs.writeFile("/bytes", new Uint8Array([1, 2, 3]))');
+    expect(sandbox.fs.readFile("/bytes")).toEqual(new Uint8Array([1, 2, 3]));
+    expect(await sandbox.evaluate('fs.readFile("/bytes")')).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  test("lists, stats and removes files", async () => {
+    sandbox = await createSandbox({ fs: { files: { "/a/1.txt": "1", "/a/b/2.txt": "22" } } });
+    const { value } = await sandbox.exec(`
+      const listing = await fs.readdir("/a")
+      const stat = await fs.stat("/a/b/2.txt")
+      await fs.rm("/a", { recursive: true })
+      ;[listing, stat.type, stat.size, await fs.exists("/a")]
+    `);
+    expect(value).toEqual([["1.txt", "b"], "file", 2, false]);
+  });
+
+  test("reports missing files", async () => {
+    sandbox = await createSandbox({ fs: true });
+    await expect(sandbox.evaluate('fs.readFile("/missing.txt")')).rejects.toThrow(
+      "ENOENT: no such file or directory, '/missing.txt'",
+    );
+  });
+
+  test("enforces quotas", async () => {
+    sandbox = await createSandbox({ fs: { maxSize: 10, maxFileSize: 6 } });
+    await expect(sandbox.evaluate('fs.writeFile("/a", "1234567")')).rejects.toThrow("EFBIG");
+    await sandbox.run('await fs.writeFile("/a", "12345"); await fs.writeFile("/b", "12345")');
+    await expect(sandbox.evaluate('fs.appendFile("/b", "6")')).rejects.toThrow("ENOSPC");
+    expect(() => sandbox.fs.writeFile("/c", "1")).toThrow("ENOSPC");
+  });
+
+  test("files survive a restart", async () => {
+    sandbox = await createSandbox({ fs: true });
+    await sandbox.run('await fs.writeFile("/kept.txt", "still here")');
+    await expect(sandbox.run("while (true) {}", { timeout: 100 })).rejects.toThrow();
+    expect(await sandbox.evaluate('fs.readFile("/kept.txt", "utf8")')).toBe("still here");
+  });
+
+  test("calls go through onHostCall", async () => {
+    const onHostCall = vi.fn(({ path }: { path: string }) => path !== "fs.rm");
+    sandbox = await createSandbox({ fs: { files: { "/a": "1" } }, onHostCall });
+    await expect(sandbox.evaluate('fs.rm("/a")')).rejects.toThrow("Call to fs.rm was denied");
+    expect(sandbox.fs.exists("/a")).toBe(true);
+  });
+
+  test("is not exposed unless enabled", async () => {
+    sandbox = await createSandbox();
+    expect(await sandbox.evaluate("typeof fs")).toBe("undefined");
+  });
+});
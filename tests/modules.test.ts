@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+
+import { createSandbox, type Sandbox } from "../src";
+
+let sandbox: Sandbox;
+
+afterEach(() => {
+  sandbox?.dispose();
+});
+
+describe("modules", () => {
+  test("imports bare specifiers", async () => {
+    sandbox = await createSandbox({
+      modules: { "math-utils": "export const double = (x) => x * 2" },
+    });
+    await sandbox.run('import { double } from "math-utils"; globalThis.__result = double(21)');
+    expect(await sandbox.evaluate("globalThis.__result")).toBe(42);
+  });
+
+  test("imports default exports and namespaces", async () => {
+    sandbox = await createSandbox({
+      modules: {
+        greet: 'export default (name) => `Hello, ${name}!`; export const punctuation = "!"',
+      },
+    });
+    await sandbox.run(`
+      import greet, * as ns from "greet"
+      globalThis.__result = [greet("world"), ns.punctuation]
+    `);
+    expect(await sandbox.evaluate("globalThis.__result")).toEqual(["Hello, world!", "!"]);
+  });
+
+  test("resolves relative specifiers", async () => {
+    sandbox = await createSandbox({
+      modules: {
+        "dates/index.js": 'export { format } from "./format.js"',
+        "dates/format.js":
+          'import { pad } from "../util/pad.js"; export const format = (d) => pad(d)',
+        "util/pad.js": 'export const pad = (n) => String(n).padStart(2, "0")',
+        "local.js": "export const local = true",
+      },
+    });
+    await sandbox.run(`
+      import { format } from "dates/index.js"
+      import { local } from "./local.js"
+      globalThis.__result = [format(7), local]
+    `);
+    expect(await sandbox.evaluate("globalThis.__result")).toEqual(["07", true]);
+  });
+
+  test("loads modules with a resolver", async () => {
+    const resolver = vi.fn(async (name: string) =>
+      name === "answer" ? "export default 42" : undefined,
+    );
+    sandbox = await createSandbox({ modules: resolver });
+    await sandbox.run('import answer from "answer"; globalThis.__result = answer');
+    await sandbox.run('import answer from "answer"; globalThis.__result += answer');
+    expect(await sandbox.evaluate("globalThis.__result")).toBe(84);
+    expect(resolver).toHaveBeenCalledTimes(1);
+  });
+
+  test("evaluates each module once", async () => {
+    sandbox = await createSandbox({
+      modules: {
+        counter: "export let count = 0; export const increment = () => ++count",
+        a: 'import { increment } from "counter"; increment()',
+        b: 'import { increment } from "counter"; increment()',
+      },
+    });
+    await sandbox.run('import "a"; import "b"');
+    expect(await sandbox.evaluate('(await import("counter")).count')).toBe(2);
+  });
+
+  test("supports dynamic import of string literals", async () => {
+    sandbox = await createSandbox({ modules: { answer: "export default 42" } });
+    await sandbox.run('globalThis.__result = (await import("answer")).default');
+    expect(await sandbox.evaluate("globalThis.__result")).toBe(42);
+  });
+
+  test("rejects missing modules", async () => {
+    sandbox = await createSandbox({ modules: {} });
+    await expect(sandbox.run('import "missing"')).rejects.toThrow("Cannot find module 'missing'");
+  });
+
+  test("supports circular imports", async () => {
+    sandbox = await createSandbox({
+      modules: {
+        "a.js": 'import { b } from "./b.js"; export const a = () => `a${b()}`',
+        "b.js":
+          'import { a } from "./a.js"; export const b = () => "b"; export const callA = () => a()',
+      },
+    });
+    await sandbox.run('import { callA } from "b.js"; globalThis.__result = callA()');
+    expect(await sandbox.evaluate("globalThis.__result")).toBe("ab");
+  });
+
+  test("evaluates modules in a cycle once, whichever is imported", async () => {
+    sandbox = await createSandbox({
+      modules: {
+        counter: "export let count = 0; export const increment = () => ++count",
+        a: 'import { increment } from "counter"; import "b"; increment(); export default "a"',
+        b: 'import { increment } from "counter"; import "a"; increment(); export default "b"',
+      },
+    });
+    await sandbox.run('import a from "a"; globalThis.__result = [a]');
+    await sandbox.run('import b from "b"; globalThis.__result.push(b)');
+    expect(await sandbox.evaluate("globalThis.__result")).toEqual(["a", "b"]);
+    expect(await sandbox.evaluate('(await import("counter")).count')).toBe(2);
+  });
+
+  test("fills in re-exports across a cycle", async () => {
+    sandbox = await createSandbox({
+      modules: {
+        index: 'export * from "shapes"; export { area as default } from "shapes"',
+        shapes:
+          'import * as index from "index"; export const area = (r) => 3 * r * r;' +
+          " export const describe = () => Object.keys(index).sort().join()",
+      },
+    });
+    await sandbox.run('import { describe } from "shapes"; globalThis.__result = describe()');
+    expect(await sandbox.evaluate("globalThis.__result")).toBe("area,default,describe");
+  });
+
+  test("finds specifiers after regular expressions", async () => {
+    sandbox = await createSandbox({ modules: { answer: "export default 42" } });
+    await sandbox.run(`
+      if (true) /"/.test("x")
+      globalThis.__result = (await import("answer")).default
+    `);
+    expect(await sandbox.evaluate("globalThis.__result")).toBe(42);
+  });
+
+  test("ignores specifiers in strings and comments", async () => {
+    sandbox = await createSandbox({ modules: {} });
+    await sandbox.run(`
+      // import "missing"
+      globalThis.__result = 'import "missing"'
+    `);
+    expect(await sandbox.evaluate("globalThis.__result")).toBe('import "missing"');
+  });
+
+  test("reports syntax errors from the worker", async () => {
+    sandbox = await createSandbox({ modules: {} });
+    await expect(sandbox.run('import "unterminated')).rejects.toThrow();
+  });
+
+  test("does not allow importing URLs", async () => {
+    sandbox = await createSandbox({ modules: { underscore: "export default 1" } });
+    await expect(sandbox.run('import _ from "https://esm.sh/underscore"')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, test } from "vitest";
+
+import { createSandbox, type Sandbox } from "../src/node";
+import { expression } from "./testUtils";
+
+let sandbox: Sandbox;
+
+afterEach(() => {
+  sandbox?.dispose();
+});
+
+describe("node global scope", () => {
+  test.each([
+    ["process"],
+    ["global"],
+    ["setImmediate"],
+    ["require"],
+    ["fetch"],
+    ["WebSocket"],
+    ["BroadcastChannel"],
+  ])("%s is not accessible", async (name) => {
+    sandbox = await createSandbox();
+    expect(await expression(sandbox, `typeof ${name}`)).toBe("undefined");
+  });
+
+  test("process can't be reached through the prototype chain", async () => {
+    sandbox = await createSandbox();
+    expect(
+      await expression(sandbox, "Object.getPrototypeOf(globalThis).process ?? null"),
+    ).toBeNull();
+  });
+
+  test("built-in modules can't be imported", async () => {
+    sandbox = await createSandbox();
+    await expect(sandbox.run('await import("node:fs")')).rejects.toThrow(
+      "Failed to resolve module specifier",
+    );
+    await expect(sandbox.run('await import("fs")')).rejects.toThrow(
+      "Failed to resolve module specifier",
+    );
+  });
+
+  test("local files can't be imported", async () => {
+    sandbox = await createSandbox();
+    await expect(sandbox.run(`await import(${JSON.stringify(import.meta.url)})`)).rejects.toThrow(
+      "Failed to resolve module specifier",
+    );
+  });
+
+  test("Buffer doesn't hand out uninitialized memory", async () => {
+    sandbox = await createSandbox();
+    expect(
+      await expression(
+        sandbox,
+        `[
+          Buffer.allocUnsafe(4096).every((byte) => byte === 0),
+          Buffer.allocUnsafeSlow(4096).every((byte) => byte === 0),
+          Buffer.from("a").buffer.byteLength,
+          Buffer.poolSize,
+        ]`,
+      ),
+    ).toEqual([true, true, 1, 0]);
+  });
+
+  test("self is the global scope, like in Web Workers", async () => {
+    sandbox = await createSandbox();
+    expect(await expression(sandbox, "self === globalThis")).toBe(true);
+  });
+});
+
+describe("resource limits", () => {
+  test("exceeding the memory limit restarts the sandbox", async () => {
+    sandbox = await createSandbox({ resourceLimits: { maxOldGenerationSizeMb: 16 } });
+    await expect(
+      sandbox.run("const chunks = []; while (true) chunks.push(new Array(1e6).fill(1))"),
+    ).rejects.toThrow();
+    expect(await expression(sandbox, "1 + 1")).toBe(2);
+  });
+});
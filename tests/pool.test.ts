@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, test } from "vitest";
+
+import { createSandboxPool, type SandboxPool } from "../src";
+
+let pool: SandboxPool;
+
+afterEach(() => {
+  pool?.dispose();
+});
+
+/** Waits until the number of iframes in the document reaches `count`. */
+async function iframeCount(count: number) {
+  await expect.poll(() => document.querySelectorAll("iframe").length).toBe(count);
+}
+
+describe("sandbox pool", () => {
+  test("pre-warms sandboxes", async () => {
+    pool = createSandboxPool({ size: 2 });
+    await iframeCount(2);
+  });
+
+  test("acquired sandboxes run code", async () => {
+    pool = createSandboxPool({ size: 1, globals: { add: (a: number, b: number) => a + b } });
+    const sandbox = await pool.acquire();
+    expect(await sandbox.evaluate("add(1, 2)")).toBe(3);
+    pool.release(sandbox);
+  });
+
+  test("replaces acquired sandboxes", async () => {
+    pool = createSandboxPool({ size: 1 });
+    const sandbox = await pool.acquire();
+    await iframeCount(2);
+    pool.release(sandbox);
+  });
+
+  test("acquires beyond the pool size", async () => {
+    pool = createSandboxPool({ size: 1 });
+    const sandboxes = await Promise.all([pool.acquire(), pool.acquire(), pool.acquire()]);
+    for (const sandbox of sandboxes) {
+      expect(await sandbox.evaluate("1 + 1")).toBe(2);
+      pool.release(sandbox);
+    }
+  });
+
+  test("disposes dirty sandboxes on release by default", async () => {
+    pool = createSandboxPool({ size: 1 });
+    const first = await pool.acquire();
+    await first.run("globalThis.__dirty = true");
+    pool.release(first);
+
+    const second = await pool.acquire();
+    expect(await second.evaluate("typeof globalThis.__dirty")).toBe("undefined");
+    pool.release(second);
+  });
+
+  test("reuses clean sandboxes", async () => {
+    pool = createSandboxPool({ size: 1 });
+    const first = await pool.acquire();
+    await iframeCount(2);
+    pool.release(first);
+    await iframeCount(1);
+
+    const second = await pool.acquire();
+    expect(await second.evaluate("1 + 1")).toBe(2);
+    pool.release(second);
+  });
+
+  test("reuses dirty sandboxes when allowed", async () => {
+    pool = createSandboxPool({ size: 1, reuseDirty: true });
+    const first = await pool.acquire();
+    await first.run("globalThis.__dirty = true");
+    pool.release(first);
+
+    const second = await pool.acquire();
+    expect(await second.evaluate("globalThis.__dirty")).toBe(true);
+    pool.release(second);
+  });
+
+  test("doesn't reuse sandboxes that disposed themselves", async () => {
+    pool = createSandboxPool({ size: 1, reuseDirty: true, timeoutBehavior: "dispose" });
+    const first = await pool.acquire();
+    await expect(first.run("while (true) {}", { timeout: 100 })).rejects.toThrow();
+    expect(first.disposed).toBe(true);
+    pool.release(first);
+
+    const second = await pool.acquire();
+    expect(await second.evaluate("1 + 1")).toBe(2);
+    pool.release(second);
+  });
+
+  test("released sandboxes can't be used", async () => {
+    pool = createSandboxPool({ size: 1 });
+    const sandbox = await pool.acquire();
+    pool.release(sandbox);
+    await expect(sandbox.run("1")).rejects.toThrow("Sandbox has been released");
+  });
+
+  test("disposing an acquired sandbox releases it", async () => {
+    pool = createSandboxPool({ size: 1 });
+    {
+      using sandbox = await pool.acquire();
+      await sandbox.run("globalThis.__dirty = true");
+    }
+    await iframeCount(1);
+  });
+
+  test("dispose removes all ready sandboxes", async () => {
+    pool = createSandboxPool({ size: 2 });
+    await iframeCount(2);
+    pool.dispose();
+    await iframeCount(0);
+    await expect(pool.acquire()).rejects.toThrow("Sandbox pool has been disposed");
+  });
+});
@@ -352,6 +352,209 @@ describe("Worker constructor recovery attempts", () => {
   });
 });
 
+describe("globals policy", () => {
+  test("default preset keeps stateful APIs", async () => {
+    sandbox = await createSandbox({ globalsPolicy: "default" });
+    await expect(expression(sandbox, "typeof indexedDB")).resolves.toBe("object");
+    await expect(expression(sandbox, "typeof navigator")).resolves.toBe("undefined");
+  });
+
+  test.each([
+    ["indexedDB"],
+    ["caches"],
+    ["BroadcastChannel"],
+    ["WebSocket"],
+    ["EventSource"],
+    ["importScripts"],
+    ["OffscreenCanvas"],
+    ["navigator"],
+    ["Worker"],
+  ])("strict preset removes %s", async (property) => {
+    sandbox = await createSandbox({ globalsPolicy: "strict" });
+    await expect(expression(sandbox, `typeof ${property}`)).resolves.toBe("undefined");
+  });
+
+  test("strict preset removes getters from the prototype chain", async () => {
+    sandbox = await createSandbox({ globalsPolicy: "strict" });
+    await sandbox.run(`
+      globalThis.__result = undefined
+      let proto = Object.getPrototypeOf(self)
+      while (proto) {
+        const desc = Object.getOwnPropertyDescriptor(proto, 'indexedDB')
+        if (desc) {
+          globalThis.__result = desc.get ? desc.get.call(self) : desc.value
+          break
+        }
+        proto = Object.getPrototypeOf(proto)
+      }
+    `);
+    expect(await expression(sandbox, "globalThis.__result")).toBeUndefined();
+  });
+
+  test("ecmascript preset keeps only built-ins and provided globals", async () => {
+    sandbox = await createSandbox({
+      globalsPolicy: "ecmascript",
+      globals: { greet: (name: string) => `Hello, ${name}!` },
+      console: true,
+    });
+    await expect(
+      expression(
+        sandbox,
+        "[typeof fetch, typeof setTimeout, typeof self, typeof TextEncoder, typeof crypto]",
+      ),
+    ).resolves.toEqual(["undefined", "undefined", "undefined", "undefined", "undefined"]);
+    await expect(
+      expression(sandbox, "[typeof JSON, typeof Promise, typeof Intl, typeof console]"),
+    ).resolves.toEqual(["object", "function", "object", "object"]);
+    await expect(expression(sandbox, 'await greet("world")')).resolves.toBe("Hello, world!");
+  });
+
+  test("ecmascript preset still reports errors and snapshots", async () => {
+    sandbox = await createSandbox({ globalsPolicy: "ecmascript" });
+    await expect(sandbox.run('throw new Error("boom")')).rejects.toThrow("boom");
+    await sandbox.run("globalThis.count = 1");
+    expect((await sandbox.snapshot()).globals).toEqual({ count: 1 });
+  });
+
+  test("block extends a preset", async () => {
+    sandbox = await createSandbox({ globalsPolicy: { block: ["crypto", "setInterval"] } });
+    await expect(
+      expression(sandbox, "[typeof crypto, typeof setInterval, typeof setTimeout]"),
+    ).resolves.toEqual(["undefined", "undefined", "function"]);
+  });
+
+  test("block removes APIs the worker uses itself", async () => {
+    sandbox = await createSandbox({
+      globalsPolicy: {
+        block: ["performance", "structuredClone", "Request", "Response", "Headers"],
+      },
+      console: true,
+    });
+    await expect(
+      expression(
+        sandbox,
+        "[typeof performance, typeof structuredClone, typeof Request, typeof Response, typeof Headers]",
+      ),
+    ).resolves.toEqual(["undefined", "undefined", "undefined", "undefined", "undefined"]);
+    const { logs } = await sandbox.run("console.time(); console.timeEnd(); console.log(1)");
+    expect(logs.map((entry) => entry.method)).toEqual(["timeEnd", "log"]);
+  });
+
+  test("ecmascript preset removes APIs the worker uses itself", async () => {
+    sandbox = await createSandbox({ globalsPolicy: "ecmascript", console: true });
+    await expect(
+      expression(sandbox, "[typeof performance, typeof structuredClone, typeof Response]"),
+    ).resolves.toEqual(["undefined", "undefined", "undefined"]);
+  });
+
+  test("blocking the functions that talk to the host throws", async () => {
+    await expect(createSandbox({ globalsPolicy: { block: ["postMessage"] } })).rejects.toThrow(
+      "Can't block postMessage",
+    );
+  });
+
+  test("allow exempts globals from a preset", async () => {
+    sandbox = await createSandbox({
+      globalsPolicy: { preset: "strict", allow: ["indexedDB"] },
+    });
+    await expect(expression(sandbox, "[typeof indexedDB, typeof caches]")).resolves.toEqual([
+      "object",
+      "undefined",
+    ]);
+  });
+
+  test("allow adds to the ecmascript preset", async () => {
+    sandbox = await createSandbox({
+      globalsPolicy: { preset: "ecmascript", allow: ["setTimeout"], block: ["eval"] },
+    });
+    await expect(
+      expression(sandbox, "[typeof setTimeout, typeof setInterval, typeof eval]"),
+    ).resolves.toEqual(["function", "undefined", "undefined"]);
+  });
+});
+
+describe("timing hardening", () => {
+  test("performance.now() is rounded to the resolution and monotonic", async () => {
+    sandbox = await createSandbox({ hardenTiming: { resolution: 5 } });
+    const { value } = await sandbox.exec(`
+      const samples = []
+      const start = performance.now()
+      while (performance.now() - start < 50) samples.push(performance.now())
+      ;({
+        rounded: samples.every((time) => Math.abs(time / 5 - Math.round(time / 5)) < 1e-9),
+        monotonic: samples.every((time, i) => i === 0 || time >= samples[i - 1]),
+        distinct: new Set(samples).size,
+      })
+    `);
+    expect(value).toMatchObject({ rounded: true, monotonic: true });
+    // 50ms at a resolution of 5ms gives about 10 distinct values
+    expect((value as { distinct: number }).distinct).toBeLessThanOrEqual(13);
+  });
+
+  test("Date, timeOrigin and event timestamps are rounded to the resolution", async () => {
+    sandbox = await createSandbox({ hardenTiming: { resolution: 5 } });
+    await expect(
+      expression(
+        sandbox,
+        "[Date.now() % 5, new Date().getTime() % 5, performance.timeOrigin % 5, new Event('x').timeStamp % 5]",
+      ),
+    ).resolves.toEqual([0, 0, 0, 0]);
+  });
+
+  test("Intl.DateTimeFormat and Temporal.Now are rounded to the resolution", async () => {
+    sandbox = await createSandbox({ hardenTiming: { resolution: 1000, jitter: false } });
+    await expect(
+      expression(
+        sandbox,
+        `[
+          new Intl.DateTimeFormat("en", { second: "numeric", fractionalSecondDigits: 3 })
+            .format()
+            .endsWith(".000"),
+          typeof Temporal === "undefined" ? 0 : Temporal.Now.instant().epochMilliseconds % 1000,
+        ]`,
+      ),
+    ).resolves.toEqual([true, 0]);
+  });
+
+  test("timer delays are rounded up to the resolution", async () => {
+    sandbox = await createSandbox({ hardenTiming: { resolution: 100 } });
+    const start = performance.now();
+    await sandbox.run("await new Promise((resolve) => setTimeout(resolve, 1))");
+    expect(performance.now() - start).toBeGreaterThanOrEqual(95);
+  });
+
+  test("performance.mark() can't bypass the resolution", async () => {
+    sandbox = await createSandbox({ hardenTiming: { resolution: 5 } });
+    await expect(
+      expression(
+        sandbox,
+        `[
+          performance.mark?.("x").startTime ?? null,
+          typeof performance.getEntries,
+          typeof PerformanceObserver,
+          typeof PerformanceMark,
+        ]`,
+      ),
+    ).resolves.toEqual([null, "undefined", "undefined", "undefined"]);
+  });
+
+  test("removes shared memory", async () => {
+    sandbox = await createSandbox({ hardenTiming: true });
+    await expect(
+      expression(sandbox, "[typeof SharedArrayBuffer, typeof Atomics.waitAsync]"),
+    ).resolves.toEqual(["undefined", "undefined"]);
+  });
+
+  test("without jitter, clocks round down", async () => {
+    sandbox = await createSandbox({ hardenTiming: { resolution: 1000, jitter: false } });
+    const before = Math.floor(Date.now() / 1000) * 1000;
+    const now = (await sandbox.evaluate("Date.now()")) as number;
+    expect(now % 1000).toBe(0);
+    expect(now).toBeGreaterThanOrEqual(before);
+    expect(now).toBeLessThanOrEqual(Date.now());
+  });
+});
+
 describe("CSP injection resistance", () => {
   test("CSP with HTML special characters is safely escaped", async () => {
     // If escaping fails, the iframe would break or allow injected content
@@ -1,7 +1,10 @@
-import { expect } from "vitest";
+import { expect, vi } from "vitest";
 
 import type { ExecutionOptions, Sandbox } from "../src";
 
+/** Whether the tests run in a browser, as opposed to against the Node.js backend. */
+export const isBrowser = typeof document !== "undefined";
+
 let counter = 0;
 
 /** Gets an expression using both .run() and .evaluate(). */
@@ -18,3 +21,29 @@ export async function expression(
   expect(valueFromRun).toStrictEqual(valueFromEvaluate);
   return valueFromRun;
 }
+
+/**
+ * Runs `fn` and returns the errors reported with `queueMicrotask()` in the
+ * meantime, which would otherwise be uncaught and fail the test.
+ */
+export async function catchReportedErrors(fn: () => Promise<void>): Promise<unknown[]> {
+  const errors: unknown[] = [];
+  const realQueueMicrotask = globalThis.queueMicrotask;
+  const spy = vi.spyOn(globalThis, "queueMicrotask").mockImplementation((callback) => {
+    realQueueMicrotask(() => {
+      try {
+        callback();
+      } catch (err) {
+        errors.push(err);
+      }
+    });
+  });
+  try {
+    await fn();
+    // Let the errors reported last be thrown
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  } finally {
+    spy.mockRestore();
+  }
+  return errors;
+}
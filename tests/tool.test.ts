@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, test } from "vitest";
+
+import { createCodeTool, createSandbox, type Sandbox } from "../src";
+
+let sandbox: Sandbox;
+
+afterEach(() => {
+  sandbox?.dispose();
+});
+
+/** A stand-in for a model that answers every prompt by calling the tool with the given code. */
+function createStubModel(code: string) {
+  return {
+    respond(tools: Array<{ type: string; function: { name: string } }>) {
+      return {
+        toolCalls: [{ name: tools[0].function.name, arguments: JSON.stringify({ code }) }],
+      };
+    },
+  };
+}
+
+describe("createCodeTool", () => {
+  test("provides tool definitions", async () => {
+    sandbox = await createSandbox();
+    const tool = createCodeTool(sandbox, { name: "js" });
+    expect(tool.toOpenAI()).toEqual({
+      type: "function",
+      function: { name: "js", description: tool.description, parameters: tool.inputSchema },
+    });
+    expect(tool.toAnthropic()).toEqual({
+      name: "js",
+      description: tool.description,
+      input_schema: tool.inputSchema,
+    });
+    expect(tool.inputSchema).toMatchObject({ type: "object", required: ["code"] });
+  });
+
+  test("doesn't deny network access the sandbox may have", async () => {
+    sandbox = await createSandbox({ fetch: { onRequest: () => true } });
+    const tool = createCodeTool(sandbox);
+    expect(tool.description).not.toContain("network");
+  });
+
+  test("describes the globals", async () => {
+    const globals = { add: (a: number, b: number) => a + b };
+    sandbox = await createSandbox({ globals });
+    const tool = createCodeTool(sandbox, { globals });
+    expect(tool.description).toContain("declare function add(");
+  });
+
+  test("handles tool calls from a model", async () => {
+    sandbox = await createSandbox({ console: true });
+    const tool = createCodeTool(sandbox);
+    const model = createStubModel('console.log("hi"); console.warn("careful"); ({ sum: 1 + 2 })');
+    const [call] = model.respond([tool.toOpenAI()]).toolCalls;
+    expect(call.name).toBe(tool.name);
+    expect(await tool.handle(call.arguments)).toEqual({
+      content: 'Console output:\nhi\n[warn] careful\n\nResult:\n{\n  "sum": 3\n}',
+      isError: false,
+    });
+  });
+
+  test("reports errors with console output", async () => {
+    sandbox = await createSandbox({ console: true });
+    const tool = createCodeTool(sandbox);
+    const result = await tool.handle({ code: 'console.log("before")\nnull.foo' });
+    expect(result.isError).toBe(true);
+    expect(result.content).toMatch(
+      /^Console output:\nbefore\n\nError:\nTypeError: .*\n\s+at .*run-\d+:2:\d+/,
+    );
+  });
+
+  test("reports syntax errors with their location", async () => {
+    sandbox = await createSandbox();
+    const tool = createCodeTool(sandbox);
+    const result = await tool.handle({ code: "let x = 1\nx +* 2" });
+    expect(result).toMatchObject({ isError: true });
+    expect(result.content).toMatch(/^Error:\nSyntaxError: .* \(line 2, column \d+\)$/);
+  });
+
+  test("reports timeouts", async () => {
+    sandbox = await createSandbox();
+    const tool = createCodeTool(sandbox);
+    expect(await tool.handle({ code: "while (true) {}" }, { timeout: 100 })).toEqual({
+      content: "Error:\nThe code timed out. State from previous calls was lost.",
+      isError: true,
+    });
+  });
+
+  test("reports results that can't be cloned", async () => {
+    sandbox = await createSandbox({ console: true });
+    const tool = createCodeTool(sandbox);
+    const result = await tool.handle({
+      code: 'console.log("before")\nconst api = { get() {} }\napi',
+    });
+    expect(result.isError).toBe(true);
+    expect(result.content).toMatch(/^Console output:\nbefore\n\nError:\nDataCloneError: /);
+  });
+
+  test("reports cancelled calls", async () => {
+    sandbox = await createSandbox({ console: true });
+    const tool = createCodeTool(sandbox);
+    const controller = new AbortController();
+    const result = tool.handle(
+      { code: 'console.log("before"); await new Promise(() => {})' },
+      { signal: controller.signal },
+    );
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    controller.abort();
+    expect(await result).toEqual({
+      content:
+        "Console output:\nbefore\n\nError:\nThe code was cancelled. State from previous calls was lost.",
+      isError: true,
+    });
+  });
+
+  test("rejects invalid input", async () => {
+    sandbox = await createSandbox();
+    const tool = createCodeTool(sandbox);
+    expect(await tool.handle({ source: "1" })).toEqual({
+      content: "Error: input.code is required.",
+      isError: true,
+    });
+    expect(await tool.handle("{")).toMatchObject({ isError: true });
+  });
+
+  test("reports when there's nothing to show", async () => {
+    sandbox = await createSandbox();
+    const tool = createCodeTool(sandbox);
+    expect((await tool.handle({ code: "const x = 1" })).content).toBe(
+      "The code ran without output or result.",
+    );
+  });
+
+  test("truncates long results", async () => {
+    sandbox = await createSandbox();
+    const tool = createCodeTool(sandbox, { maxResultLength: 200 });
+    const { content } = await tool.handle({ code: '"x".repeat(1000)' });
+    expect(content.length).toBeLessThanOrEqual(200);
+    expect(content).toMatch(/characters omitted/);
+  });
+});
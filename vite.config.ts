@@ -1,8 +1,9 @@
-/// <reference types="vitest/config" />
+import { fileURLToPath } from "node:url";
 
 import { playwright } from "@vitest/browser-playwright";
 import { defineConfig, type Plugin, type Rollup, build as viteBuild } from "vite";
 import dts from "vite-plugin-dts";
+import { configDefaults } from "vitest/config";
 
 const bundledSuffix = "?bundled";
 
@@ -25,6 +26,8 @@ function bundled(): Plugin {
           write: false,
           rollupOptions: {
             input: filePath,
+            // Node.js built-ins, imported by the Node.js backend's worker
+            external: [/^node:/],
             output: { format: "module" },
           },
         },
@@ -53,22 +56,49 @@ function stripVitePreload(): Plugin {
 export default defineConfig({
   build: {
     lib: {
-      entry: "src/index.ts",
+      entry: { index: "src/index.ts", node: "src/node.ts" },
       formats: ["es", "cjs"],
-      fileName: (format) => `index.${format === "es" ? "mjs" : "cjs"}`,
+      fileName: (format, entryName) => `${entryName}.${format === "es" ? "mjs" : "cjs"}`,
     },
     rollupOptions: {
-      external: ["shrimp-rpc"],
+      external: ["shrimp-rpc", /^es-module-lexer/, /^node:/],
     },
   },
   plugins: [bundled(), dts({ include: ["src"] })],
   test: {
-    browser: {
-      enabled: true,
-      headless: true,
-      screenshotFailures: false,
-      provider: playwright(),
-      instances: [{ browser: "chromium" }, { browser: "firefox" }, { browser: "webkit" }],
-    },
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: "browser",
+          exclude: [...configDefaults.exclude, "tests/node.test.ts"],
+          browser: {
+            enabled: true,
+            headless: true,
+            screenshotFailures: false,
+            provider: playwright(),
+            instances: [{ browser: "chromium" }, { browser: "firefox" }, { browser: "webkit" }],
+          },
+        },
+      },
+      {
+        extends: true,
+        // Runs the basics and fetch() against the Node.js backend, by resolving the tests'
+        // imports of "../src" to it
+        resolve: {
+          alias: [
+            {
+              find: /^\.\.\/src$/,
+              replacement: fileURLToPath(new URL("src/node.ts", import.meta.url)),
+            },
+          ],
+        },
+        test: {
+          name: "node",
+          environment: "node",
+          include: ["tests/basics.test.ts", "tests/fetch.test.ts", "tests/node.test.ts"],
+        },
+      },
+    ],
   },
 });